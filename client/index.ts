@@ -0,0 +1,11 @@
+import { Context } from '@koishijs/client'
+import Servers from './servers.vue'
+
+export default (ctx: Context) => {
+  ctx.page({
+    name: 'Minecraft 服务器',
+    path: '/minecraft',
+    authority: 4,
+    component: Servers,
+  })
+}
@@ -0,0 +1,99 @@
+import { SrvRecord } from 'dns'
+import { resolveSrv } from 'dns/promises'
+import { isIP } from 'net'
+
+export interface ServerAddress {
+  host: string
+  port: number
+}
+
+export interface ParsedAddress extends ServerAddress {
+  explicitPort: boolean
+}
+
+export type SrvResolver = (hostname: string) => Promise<SrvRecord[]>
+
+// 解析主机名，返回实际要连接的地址，可以在返回前检查地址是否允许连接
+export type HostLookup = (host: string) => Promise<{ address: string, family: number }>
+
+// 没有 SRV 记录时解析器返回的错误码，这类结果可以缓存
+const NO_RECORD_CODES = ['ENODATA', 'ENOTFOUND']
+
+const MAX_CACHE_SIZE = 1000
+
+function parsePort(text: string) {
+  const port = /^\d+$/.test(text) ? parseInt(text) : NaN
+  if (!(port >= 1 && port <= 65535)) {
+    throw new Error('端口号无效，取值范围为 1-65535')
+  }
+  return port
+}
+
+export function parseServerAddress(input: string, defaultPort: number): ParsedAddress {
+  const text = String(input).trim()
+
+  // [IPv6]:port 或 [IPv6]
+  if (text.startsWith('[')) {
+    const match = /^\[([^\]]+)\](?::(.*))?$/.exec(text)
+    if (!match || isIP(match[1]) !== 6) {
+      throw new Error('服务器地址格式无效')
+    }
+    const explicitPort = match[2] !== undefined
+    return { host: match[1], port: explicitPort ? parsePort(match[2]) : defaultPort, explicitPort }
+  }
+
+  const colons = text.split(':').length - 1
+  // 不带方括号的 IPv6 地址无法携带端口
+  if (colons > 1) {
+    if (isIP(text) !== 6) {
+      throw new Error('服务器地址格式无效，IPv6 地址带端口时请使用 [地址]:端口 格式')
+    }
+    return { host: text, port: defaultPort, explicitPort: false }
+  }
+
+  if (colons === 1) {
+    const index = text.indexOf(':')
+    const host = text.slice(0, index)
+    if (!host) throw new Error('服务器地址格式无效')
+    return { host, port: parsePort(text.slice(index + 1)), explicitPort: true }
+  }
+
+  if (!text) throw new Error('服务器地址格式无效')
+  return { host: text, port: defaultPort, explicitPort: false }
+}
+
+export function formatAddress(address: ServerAddress) {
+  return isIP(address.host) === 6 ? `[${address.host}]:${address.port}` : `${address.host}:${address.port}`
+}
+
+export function createSrvLookup(resolver: SrvResolver = resolveSrv, ttl = 600 * 1000) {
+  const cache = new Map<string, { expires: number, target: ServerAddress | null }>()
+
+  return async function lookupSrv(host: string): Promise<ServerAddress | null> {
+    if (isIP(host)) return null
+
+    const key = host.toLowerCase()
+    const cached = cache.get(key)
+    if (cached && cached.expires > Date.now()) return cached.target
+
+    let target: ServerAddress | null = null
+    try {
+      const records = await resolver(`_minecraft._tcp.${key}`)
+      // 优先级数值越小越优先，相同优先级时选择权重最高的记录
+      const [record] = records.sort((a, b) => a.priority - b.priority || b.weight - a.weight)
+      if (record) {
+        target = { host: record.name.replace(/\.$/, ''), port: record.port }
+      }
+    } catch (error) {
+      // 超时等临时错误不缓存，下次查询时重试
+      if (!NO_RECORD_CODES.includes(error?.code)) return null
+    }
+
+    cache.delete(key)
+    if (cache.size >= MAX_CACHE_SIZE) {
+      cache.delete(cache.keys().next().value)
+    }
+    cache.set(key, { expires: Date.now() + ttl, target })
+    return target
+  }
+}
@@ -0,0 +1,129 @@
+import { createSocket } from 'dgram'
+import { lookup } from 'dns/promises'
+import { randomBytes } from 'crypto'
+import { HostLookup } from './address'
+
+// RakNet 离线消息使用的固定魔数
+const OFFLINE_MESSAGE_MAGIC = Buffer.from('00ffff00fefefefefdfdfdfd12345678', 'hex')
+
+const ID_UNCONNECTED_PING = 0x01
+const ID_UNCONNECTED_PONG = 0x1c
+
+export interface BedrockStatus {
+  online: true
+  edition: string
+  description: string
+  version: {
+    name: string
+    protocol: number
+  }
+  players: {
+    online: number
+    max: number
+  }
+  serverId: string
+  levelName: string
+  gamemode: string
+  portV4?: number
+  portV6?: number
+}
+
+export interface BedrockPingOptions {
+  timeout?: number
+  lookup?: HostLookup
+}
+
+export function createUnconnectedPing(timestamp: bigint, clientGuid: Buffer) {
+  const packet = Buffer.alloc(1 + 8 + 16 + 8)
+  packet.writeUInt8(ID_UNCONNECTED_PING, 0)
+  packet.writeBigInt64BE(timestamp, 1)
+  OFFLINE_MESSAGE_MAGIC.copy(packet, 9)
+  clientGuid.copy(packet, 25, 0, 8)
+  return packet
+}
+
+export function parseUnconnectedPong(packet: Buffer): BedrockStatus {
+  // 0x1C | time(8) | serverGuid(8) | magic(16) | length(2) | payload
+  if (packet.length < 35 || packet.readUInt8(0) !== ID_UNCONNECTED_PONG) {
+    throw new Error('无效的Bedrock服务器响应')
+  }
+  if (!packet.subarray(17, 33).equals(OFFLINE_MESSAGE_MAGIC)) {
+    throw new Error('无效的Bedrock服务器响应')
+  }
+
+  const length = packet.readUInt16BE(33)
+  const payload = packet.subarray(35, 35 + length).toString('utf8')
+
+  // MCPE;MOTD;协议号;版本;在线人数;最大人数;服务器ID;存档名;游戏模式;游戏模式ID;IPv4端口;IPv6端口;
+  const fields = payload.split(';')
+  if (fields.length < 6) {
+    throw new Error('无效的Bedrock服务器响应')
+  }
+
+  const toNumber = (value: string | undefined) => {
+    const parsed = parseInt(value)
+    return isNaN(parsed) ? undefined : parsed
+  }
+
+  return {
+    online: true,
+    edition: fields[0],
+    description: fields[1] || '',
+    version: {
+      name: fields[3] || '',
+      protocol: toNumber(fields[2]) ?? 0,
+    },
+    players: {
+      online: toNumber(fields[4]) ?? 0,
+      max: toNumber(fields[5]) ?? 0,
+    },
+    serverId: fields[6] || '',
+    levelName: fields[7] || '',
+    gamemode: fields[8] || '',
+    portV4: toNumber(fields[10]),
+    portV6: toNumber(fields[11]),
+  }
+}
+
+export async function getBedrockServerStatus(host: string, port: number, options: BedrockPingOptions = {}) {
+  const timeout = options.timeout ?? 5000
+  const { address, family } = await (options.lookup || lookup)(host)
+  const socket = createSocket(family === 6 ? 'udp6' : 'udp4')
+
+  return new Promise<BedrockStatus>((resolve, reject) => {
+    // send 的回调可能晚于响应或超时触发，避免重复关闭 socket
+    let closed = false
+    const timer = setTimeout(() => {
+      finish(new Error('Bedrock服务器响应超时'))
+    }, timeout)
+
+    function finish(error: Error | null, status?: BedrockStatus) {
+      if (closed) return
+      closed = true
+      clearTimeout(timer)
+      socket.removeAllListeners()
+      socket.close()
+      if (error) {
+        reject(error)
+      } else {
+        resolve(status)
+      }
+    }
+
+    socket.on('error', (error) => finish(error))
+    socket.on('message', (message) => {
+      // 忽略无关的数据包，继续等待 Unconnected Pong
+      if (message.length === 0 || message.readUInt8(0) !== ID_UNCONNECTED_PONG) return
+      try {
+        finish(null, parseUnconnectedPong(message))
+      } catch (error) {
+        finish(error)
+      }
+    })
+
+    const packet = createUnconnectedPing(BigInt(Date.now()), randomBytes(8))
+    socket.send(packet, port, address, (error) => {
+      if (error) finish(error)
+    })
+  })
+}
@@ -0,0 +1,85 @@
+import { h } from 'koishi'
+
+export type BridgeEventType = 'chat' | 'join' | 'leave' | 'death' | 'advancement'
+
+export const BRIDGE_EVENT_TYPES: BridgeEventType[] = ['chat', 'join', 'leave', 'death', 'advancement']
+
+// 服务端插件推送的事件，death 的 message 为完整的死亡信息，advancement 的 message 为进度名称
+export interface BridgeEvent {
+  type: BridgeEventType
+  player: string
+  message: string
+}
+
+const MAX_PLAYER_LENGTH = 32
+const MAX_MESSAGE_LENGTH = 512
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// 去掉颜色代码，避免在群里或游戏里显示成乱码
+function stripFormatting(text: string) {
+  return text.replace(/§./g, '').replace(/§/g, '')
+}
+
+function truncate(text: string, maxLength: number) {
+  return text.length > maxLength ? text.slice(0, maxLength - 1) + '…' : text
+}
+
+export function parseBridgeEvent(body: unknown): BridgeEvent | string {
+  if (!isObject(body)) return '请求体必须为 JSON 对象'
+
+  const { type, player, message = '' } = body
+  if (!BRIDGE_EVENT_TYPES.includes(type as BridgeEventType)) return `type 只能为 ${BRIDGE_EVENT_TYPES.join('、')}`
+  if (typeof player !== 'string' || !stripFormatting(player).trim()) return 'player 必须为非空字符串'
+  if (typeof message !== 'string') return 'message 必须为字符串'
+  if (type === 'chat' && !stripFormatting(message).trim()) return '聊天消息不能为空'
+
+  return {
+    type: type as BridgeEventType,
+    player: truncate(stripFormatting(player).trim(), MAX_PLAYER_LENGTH),
+    message: truncate(stripFormatting(message).trim(), MAX_MESSAGE_LENGTH),
+  }
+}
+
+export function formatBridgeEvent(event: BridgeEvent, serverName: string) {
+  const player = h.escape(event.player)
+  const message = h.escape(event.message)
+  const server = h.escape(serverName)
+  switch (event.type) {
+    case 'chat': return `💬 [${server}] ${player}: ${message}`
+    case 'join': return `➡️ ${player} 加入了 ${server}`
+    case 'leave': return `⬅️ ${player} 离开了 ${server}`
+    case 'death': return `💀 ${message || `${player} 死亡了`}`
+    case 'advancement': return `🏆 ${player} 达成了进度 ${message ? `[${message}]` : ''}`.trim()
+  }
+}
+
+// 群消息中的图片、表情等非文本内容用占位符代替
+export function toBridgeText(elements: h[]): string {
+  return elements.map((element) => {
+    switch (element.type) {
+      case 'text': return element.attrs.content
+      case 'at': return `@${element.attrs.name || element.attrs.id}`
+      case 'img':
+      case 'image': return '[图片]'
+      case 'face': return '[表情]'
+      case 'audio': return '[语音]'
+      case 'video': return '[视频]'
+      case 'file': return '[文件]'
+      case 'quote': return ''
+      default: return toBridgeText(element.children)
+    }
+  }).join('')
+}
+
+// Java 版使用 JSON 文本组件，基岩版使用 rawtext 格式
+export function buildTellraw(serverType: 'java' | 'bedrock', sender: string, content: string, maxLength: number) {
+  const name = stripFormatting(sender).trim()
+  const text = truncate(stripFormatting(content).replace(/\s+/g, ' ').trim(), maxLength)
+  if (serverType === 'bedrock') {
+    return `tellraw @a ${JSON.stringify({ rawtext: [{ text: `§b[群] §r<${name}> ${text}` }] })}`
+  }
+  return `tellraw @a ${JSON.stringify(['', { text: '[群] ', color: 'aqua' }, { text: `<${name}> ${text}`, color: 'white' }])}`
+}
@@ -0,0 +1,200 @@
+import { MotdSpan } from './motd'
+
+export interface StatusCard {
+  id?: number
+  name: string
+  online: boolean
+  serverType: string
+  address?: string
+  version?: string
+  players?: {
+    online: number
+    max: number
+    names: string[]
+  }
+  motd?: MotdSpan[]
+  favicon?: string
+  latency?: number
+  gamemode?: string
+  levelName?: string
+  error?: string
+}
+
+export function escapeHtml(text: string) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function motdToHtml(spans: MotdSpan[]) {
+  return spans.map((span) => {
+    const style: string[] = []
+    if (span.color) style.push(`color:${span.color}`)
+    if (span.bold) style.push('font-weight:bold')
+    if (span.italic) style.push('font-style:italic')
+    const decorations = []
+    if (span.underlined) decorations.push('underline')
+    if (span.strikethrough) decorations.push('line-through')
+    if (decorations.length > 0) style.push(`text-decoration:${decorations.join(' ')}`)
+    const escaped = escapeHtml(span.text).replace(/\n/g, '<br>')
+    return style.length > 0 ? `<span style="${style.join(';')}">${escaped}</span>` : escaped
+  }).join('')
+}
+
+function renderFavicon(card: StatusCard) {
+  // 图标由服务器提供，只接受完整的 PNG base64 数据，避免向页面注入标签；部分旧服务端会在数据中插入换行
+  const favicon = card.favicon?.replace(/\s+/g, '')
+  if (favicon && /^data:image\/png;base64,[A-Za-z0-9+/]+=*$/.test(favicon)) {
+    return `<img class="favicon" src="${escapeHtml(favicon)}">`
+  }
+  return `<div class="favicon placeholder">${escapeHtml(card.name.slice(0, 1))}</div>`
+}
+
+function renderPlayerBar(card: StatusCard) {
+  if (!card.players) return ''
+  const { online, max } = card.players
+  const percent = max > 0 ? Math.min(100, online / max * 100) : 0
+  return `
+    <div class="bar"><div class="bar-fill" style="width:${percent.toFixed(1)}%"></div></div>
+    <div class="bar-label">${online} / ${max}</div>`
+}
+
+const STYLE = `
+  * { box-sizing: border-box; margin: 0; padding: 0; }
+  body { background: transparent; font-family: "Microsoft YaHei", "PingFang SC", sans-serif; }
+  .container { display: inline-block; width: 560px; padding: 20px; background: #1e1f22; color: #e6e6e6; border-radius: 12px; }
+  .title { font-size: 20px; font-weight: bold; margin-bottom: 12px; }
+  .header { display: flex; align-items: center; gap: 14px; }
+  .favicon { width: 64px; height: 64px; border-radius: 8px; image-rendering: pixelated; flex-shrink: 0; }
+  .favicon.placeholder { display: flex; align-items: center; justify-content: center; background: #3a3c42; font-size: 28px; }
+  .name { font-size: 20px; font-weight: bold; }
+  .status { font-size: 14px; margin-top: 4px; }
+  .online { color: #55ff55; }
+  .offline { color: #ff5555; }
+  .motd { margin-top: 12px; padding: 10px 12px; background: #111214; border-radius: 8px; font-family: "Minecraft", monospace; line-height: 1.5; word-break: break-all; color: #aaaaaa; }
+  .bar { margin-top: 12px; height: 10px; background: #3a3c42; border-radius: 5px; overflow: hidden; }
+  .bar-fill { height: 100%; background: linear-gradient(90deg, #3ba55d, #55ff55); }
+  .bar-label { font-size: 13px; margin-top: 4px; text-align: right; color: #b5bac1; }
+  .info { margin-top: 10px; font-size: 14px; line-height: 1.8; }
+  .info span { color: #b5bac1; }
+  .players { margin-top: 8px; display: flex; flex-wrap: wrap; gap: 6px; }
+  .player { padding: 2px 8px; background: #2b2d31; border-radius: 4px; font-size: 13px; }
+  .row { display: flex; align-items: center; gap: 12px; padding: 10px 0; border-top: 1px solid #2b2d31; }
+  .row .favicon { width: 40px; height: 40px; }
+  .row .favicon.placeholder { font-size: 18px; }
+  .row-main { flex: 1; min-width: 0; }
+  .row-name { font-size: 16px; font-weight: bold; }
+  .row-detail { font-size: 13px; color: #b5bac1; margin-top: 2px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  .chart { padding: 10px 0; border-top: 1px solid #2b2d31; }
+  .chart-title { font-size: 15px; font-weight: bold; margin-bottom: 6px; }
+  .chart-title span { font-size: 12px; font-weight: normal; color: #b5bac1; margin-left: 6px; }
+  .chart svg { display: block; background: #111214; border-radius: 6px; }
+  .chart .grid { stroke: #2b2d31; stroke-dasharray: 4 4; }
+  .chart-axis { display: flex; justify-content: space-between; font-size: 12px; color: #80848e; margin-top: 2px; }
+  .footer { margin-top: 12px; font-size: 12px; color: #80848e; text-align: right; }
+`
+
+function renderPage(body: string, footer: string) {
+  return `<html><head><meta charset="utf-8"><style>${STYLE}</style></head><body>
+    <div class="container">${body}<div class="footer">${escapeHtml(footer)}</div></div>
+  </body></html>`
+}
+
+export function renderDetailedCard(card: StatusCard, footer: string) {
+  const info: string[] = []
+  if (card.address) info.push(`<span>地址</span> ${escapeHtml(card.address)}`)
+  info.push(`<span>类型</span> ${escapeHtml(card.serverType)}`)
+  if (card.version) info.push(`<span>版本</span> ${escapeHtml(card.version)}`)
+  if (card.gamemode) info.push(`<span>模式</span> ${escapeHtml(card.gamemode)}`)
+  if (card.levelName) info.push(`<span>存档</span> ${escapeHtml(card.levelName)}`)
+  if (card.latency !== undefined) info.push(`<span>延迟</span> ${card.latency}ms`)
+
+  const names = card.players?.names || []
+  const body = `
+    <div class="header">
+      ${renderFavicon(card)}
+      <div>
+        <div class="name">${escapeHtml(card.name)}</div>
+        <div class="status ${card.online ? 'online' : 'offline'}">${card.online ? '● 在线' : '● 离线'}</div>
+      </div>
+    </div>
+    ${card.motd?.length ? `<div class="motd">${motdToHtml(card.motd)}</div>` : ''}
+    ${renderPlayerBar(card)}
+    <div class="info">${info.join('<br>')}</div>
+    ${names.length > 0 ? `<div class="players">${names.map(name => `<div class="player">${escapeHtml(name)}</div>`).join('')}</div>` : ''}`
+
+  return renderPage(body, footer)
+}
+
+export function renderSummaryCard(title: string, cards: StatusCard[], footer: string) {
+  const rows = cards.map((card) => {
+    const prefix = card.id !== undefined ? `[ID:${card.id}] ` : ''
+    let detail: string
+    if (card.online) {
+      const parts = []
+      if (card.players) parts.push(`玩家 ${card.players.online}/${card.players.max}`)
+      if (card.version) parts.push(`版本 ${card.version}`)
+      if (card.latency !== undefined) parts.push(`${card.latency}ms`)
+      detail = escapeHtml(parts.join(' | '))
+    } else {
+      detail = escapeHtml(card.error ? `离线 | 原因：${card.error}` : '离线')
+    }
+    return `
+      <div class="row">
+        ${renderFavicon(card)}
+        <div class="row-main">
+          <div class="row-name">${escapeHtml(prefix + card.name)} <span class="${card.online ? 'online' : 'offline'}">●</span></div>
+          <div class="row-detail">${detail}</div>
+        </div>
+      </div>`
+  }).join('')
+
+  return renderPage(`<div class="title">${escapeHtml(title)}</div>${rows}`, footer)
+}
+
+export interface TrendSeries {
+  label: string
+  color: string
+  // 纵轴上限，例如内存总量；未设置时使用数据中的最大值
+  max?: number
+  points: { time: number, value: number }[]
+  format: (value: number) => string
+}
+
+const CHART_WIDTH = 520
+const CHART_HEIGHT = 110
+
+function formatChartTime(time: number) {
+  return escapeHtml(new Date(time).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' }))
+}
+
+function renderTrendChart(series: TrendSeries, start: number, end: number) {
+  const values = series.points.map(point => point.value)
+  const top = Math.max(series.max || 0, ...values) || 1
+  const span = Math.max(end - start, 1)
+  const coordinates = series.points.map(({ time, value }) => {
+    const x = (time - start) / span * CHART_WIDTH
+    const y = CHART_HEIGHT - value / top * CHART_HEIGHT
+    return `${x.toFixed(1)},${y.toFixed(1)}`
+  }).join(' ')
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const average = values.reduce((sum, value) => sum + value, 0) / values.length
+
+  return `
+    <div class="chart">
+      <div class="chart-title">${escapeHtml(series.label)} <span>最低 ${escapeHtml(series.format(min))} · 平均 ${escapeHtml(series.format(average))} · 最高 ${escapeHtml(series.format(max))}</span></div>
+      <svg width="${CHART_WIDTH}" height="${CHART_HEIGHT}" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}">
+        <line x1="0" y1="${CHART_HEIGHT / 2}" x2="${CHART_WIDTH}" y2="${CHART_HEIGHT / 2}" class="grid" />
+        <polyline points="${coordinates}" fill="none" stroke="${series.color}" stroke-width="2" stroke-linejoin="round" />
+      </svg>
+      <div class="chart-axis"><span>${formatChartTime(start)}</span><span>纵轴上限 ${escapeHtml(series.format(top))}</span><span>${formatChartTime(end)}</span></div>
+    </div>`
+}
+
+export function renderTrendCard(title: string, series: TrendSeries[], start: number, end: number, footer: string) {
+  const charts = series.filter(item => item.points.length > 0).map(item => renderTrendChart(item, start, end)).join('')
+  return renderPage(`<div class="title">${escapeHtml(title)}</div>${charts}`, footer)
+}
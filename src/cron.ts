@@ -0,0 +1,127 @@
+export interface CronExpression {
+  minutes: Set<number>
+  hours: Set<number>
+  days: Set<number>
+  months: Set<number>
+  weekdays: Set<number>
+  // 日和周同时被限定时，任意一个匹配即可（与标准 cron 一致）
+  dayRestricted: boolean
+  weekdayRestricted: boolean
+}
+
+interface FieldRange {
+  name: string
+  min: number
+  max: number
+}
+
+const FIELDS: FieldRange[] = [
+  { name: '分钟', min: 0, max: 59 },
+  { name: '小时', min: 0, max: 23 },
+  { name: '日期', min: 1, max: 31 },
+  { name: '月份', min: 1, max: 12 },
+  { name: '星期', min: 0, max: 7 },
+]
+
+// 向后查找的上限，避免 2月30日 这类永远不会触发的表达式导致死循环
+const MAX_LOOKAHEAD_DAYS = 366 * 4
+
+function parseNumber(value: string, field: FieldRange) {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${field.name}字段包含无效的值: ${value}`)
+  }
+  const number = parseInt(value)
+  if (number < field.min || number > field.max) {
+    throw new Error(`${field.name}字段的取值范围为 ${field.min}-${field.max}`)
+  }
+  return number
+}
+
+function parseField(source: string, field: FieldRange) {
+  const values = new Set<number>()
+  for (const part of source.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : parseNumber(stepText, { ...field, min: 1 })
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = field.min
+      end = field.max
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-')
+      start = parseNumber(from, field)
+      end = parseNumber(to, field)
+      if (start > end) {
+        throw new Error(`${field.name}字段的范围无效: ${range}`)
+      }
+    } else {
+      start = parseNumber(range, field)
+      end = stepText === undefined ? start : field.max
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+  return values
+}
+
+export function parseCron(expression: string): CronExpression {
+  const parts = expression.trim().split(/\s+/)
+  if (parts.length !== 5) {
+    throw new Error('cron表达式需要包含5个字段：分 时 日 月 周')
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, index) => parseField(part, FIELDS[index]))
+  // 0 和 7 都表示星期日
+  if (weekdays.has(7)) weekdays.add(0)
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    dayRestricted: parts[2] !== '*',
+    weekdayRestricted: parts[4] !== '*',
+  }
+}
+
+function matchesDay(cron: CronExpression, date: Date) {
+  const day = cron.days.has(date.getDate())
+  const weekday = cron.weekdays.has(date.getDay())
+  if (cron.dayRestricted && cron.weekdayRestricted) return day || weekday
+  return day && weekday
+}
+
+export function matchesCron(cron: CronExpression, date: Date) {
+  return cron.minutes.has(date.getMinutes())
+    && cron.hours.has(date.getHours())
+    && cron.months.has(date.getMonth() + 1)
+    && matchesDay(cron, date)
+}
+
+export function getNextRun(cron: CronExpression, from: Date) {
+  const date = new Date(from)
+  date.setSeconds(0, 0)
+  date.setMinutes(date.getMinutes() + 1)
+
+  const limit = from.getTime() + MAX_LOOKAHEAD_DAYS * 86400 * 1000
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1)
+      date.setHours(0, 0)
+    } else if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1)
+      date.setHours(0, 0)
+    } else if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0)
+    } else if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1)
+    } else {
+      return date
+    }
+  }
+  return null
+}
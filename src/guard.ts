@@ -0,0 +1,156 @@
+import { lookup } from 'dns/promises'
+import { BlockList, isIP } from 'net'
+
+export type AddressLookup = (host: string) => Promise<string[]>
+
+export interface AddressGuardOptions {
+  blockPrivate: boolean
+  // 单个端口或端口范围，例如 25565、25560-25580，留空表示不限制
+  allowedPorts: string[]
+  // 域名、*.域名 通配、IP 地址或 CIDR 网段
+  blockedHosts: string[]
+  lookup?: AddressLookup
+}
+
+// 内网、回环、链路本地及其他不会出现在公网上的地址段
+const PRIVATE_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+]
+
+const privateList = new BlockList()
+for (const [network, prefix, type] of PRIVATE_RANGES) {
+  privateList.addSubnet(network, prefix, type)
+}
+
+function getFamily(address: string) {
+  return isIP(address) === 6 ? 'ipv6' : 'ipv4'
+}
+
+// IPv4 映射的 IPv6 地址（::ffff:127.0.0.1）会按对应的 IPv4 地址检查
+export function isPrivateAddress(address: string) {
+  return privateList.check(address, getFamily(address))
+}
+
+export function parsePortRanges(entries: string[]) {
+  const ranges: [number, number][] = []
+  for (const entry of entries) {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(String(entry))
+    if (!match) continue
+    const start = parseInt(match[1])
+    const end = match[2] ? parseInt(match[2]) : start
+    if (start >= 1 && end <= 65535 && start <= end) {
+      ranges.push([start, end])
+    }
+  }
+  return ranges
+}
+
+function normalizeHost(host: string) {
+  return host.trim().toLowerCase().replace(/\.$/, '')
+}
+
+export function createAddressGuard(options: AddressGuardOptions) {
+  const resolve: AddressLookup = options.lookup || (async (host) => {
+    const records = await lookup(host, { all: true })
+    return records.map(record => record.address)
+  })
+  const portRanges = parsePortRanges(options.allowedPorts)
+
+  // 地址和网段放入 BlockList，域名按完整匹配或后缀通配匹配
+  const blockedAddresses = new BlockList()
+  const blockedNames: string[] = []
+  const blockedSuffixes: string[] = []
+  for (const entry of options.blockedHosts) {
+    const text = normalizeHost(String(entry))
+    const [network, prefix] = text.split('/')
+    if (isIP(network)) {
+      if (prefix === undefined) {
+        blockedAddresses.addAddress(network, getFamily(network))
+      } else if (/^\d+$/.test(prefix) && parseInt(prefix) <= (isIP(network) === 6 ? 128 : 32)) {
+        blockedAddresses.addSubnet(network, parseInt(prefix), getFamily(network))
+      }
+    } else if (text.startsWith('*.')) {
+      blockedSuffixes.push(text.slice(1))
+    } else if (text) {
+      blockedNames.push(text)
+    }
+  }
+
+  function isBlockedName(host: string) {
+    const name = normalizeHost(host)
+    return blockedNames.includes(name) || blockedSuffixes.some(suffix => name.endsWith(suffix))
+  }
+
+  function isBlockedAddress(address: string) {
+    return blockedAddresses.check(address, getFamily(address))
+  }
+
+  function checkPort(port: number) {
+    // 允许列表中的条目全部无效时拒绝所有端口，而不是放开限制
+    if (options.allowedPorts.length > 0 && !portRanges.some(([start, end]) => port >= start && port <= end)) {
+      return `端口 ${port} 不在允许查询的端口范围内`
+    }
+    return null
+  }
+
+  function checkResolved(addresses: string[]) {
+    if (addresses.some(isBlockedAddress)) {
+      return '该地址已被管理员禁止查询'
+    }
+    if (options.blockPrivate && addresses.some(isPrivateAddress)) {
+      return '不允许查询内网、回环或链路本地地址'
+    }
+    return null
+  }
+
+  // 返回拒绝原因，允许查询时返回 null；hosts 包括用户输入的地址和 SRV 记录指向的地址
+  async function checkAddress(hosts: string[], port: number): Promise<string | null> {
+    const portError = checkPort(port)
+    if (portError) return portError
+
+    const addresses: string[] = []
+    for (const host of hosts) {
+      if (isIP(host)) {
+        addresses.push(host)
+        continue
+      }
+      if (isBlockedName(host)) {
+        return '该地址已被管理员禁止查询'
+      }
+      // 解析失败时交给后续的查询报告错误
+      addresses.push(...await resolve(host).catch(() => [] as string[]))
+    }
+    return checkResolved(addresses)
+  }
+
+  // 建立连接时使用：检查实际要连接的地址，避免域名在检查之后改为解析到内网地址（DNS 重绑定）
+  async function lookupAddress(host: string) {
+    if (!isIP(host) && isBlockedName(host)) {
+      throw new Error('该地址已被管理员禁止查询')
+    }
+    const [address] = isIP(host) ? [host] : await resolve(host)
+    if (!address) {
+      throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${host}`), { code: 'ENOTFOUND' })
+    }
+    const reason = checkResolved([address])
+    if (reason) throw new Error(reason)
+    return { address, family: isIP(address) }
+  }
+
+  return { checkAddress, checkPort, lookupAddress }
+}
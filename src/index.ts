@@ -1,12 +1,42 @@
-import { Context, Schema } from 'koishi'
-
-let getMinecraftServerStatus: any
-import('mc-server-util').then(m => {
-  getMinecraftServerStatus = m.getMinecraftServerStatus
-})
+import { Context, h, Query, Schema, Session } from 'koishi'
+import {} from '@koishijs/plugin-console'
+import {} from '@koishijs/plugin-server'
+import {} from 'koishi-plugin-puppeteer'
+import { resolve } from 'path'
+import { createSrvLookup, formatAddress, HostLookup, ParsedAddress, parseServerAddress, ServerAddress } from './address'
+import { getBedrockServerStatus } from './bedrock'
+import { BRIDGE_EVENT_TYPES, BridgeEventType, buildTellraw, formatBridgeEvent, parseBridgeEvent, toBridgeText } from './bridge'
+import { renderDetailedCard, renderSummaryCard, renderTrendCard, StatusCard, TrendSeries } from './card'
+import { getNextRun, matchesCron, parseCron } from './cron'
+import { createAddressGuard } from './guard'
+import { getJavaServerStatus, JavaCheckStep, JavaPingError, JavaStepResult } from './java'
+import { getLegacyServerStatus } from './legacy'
+import { createMcsmanagerPanel } from './mcsmanager'
+import { parseMotd, toPlainText } from './motd'
+import { PanelBackup, PanelLimits, PanelProvider, PanelResources, PanelTarget, PanelType, PowerSignal } from './panel'
+import { createPterodactylPanel } from './pterodactyl'
+import { getQueryServerStatus } from './query'
+import { createToken, decryptSecret, encryptSecret, formatFingerprint, getFingerprint, hashSecret, isEncrypted, loadOrCreateSecret } from './secret'
+import { createCooldown, createLimiter, createRequestCache } from './throttle'
+import { ExportFormat, parseServerFile, serializeServers, ServerExportEntry } from './transfer'
 
 export const name = 'minecraft-search'
 
+export type ServerType = 'java' | 'bedrock'
+
+export type StatusOutput = 'text' | 'image'
+
+export type ServerProtocol = 'auto' | 'legacy' | 'query'
+
+export type PermissionAction = 'query' | 'manage' | 'power' | 'resources' | 'console'
+
+export const DEFAULT_API_KEY_NAME = '默认'
+
+export const DEFAULT_PORTS: Record<ServerType, number> = {
+  java: 25565,
+  bedrock: 19132,
+}
+
 export interface ServerConfig {
   id: number
   userId: string
@@ -14,49 +44,387 @@ export interface ServerConfig {
   name: string
   host: string
   port: number
-  serverType: 'java' | 'bedrock'
+  // 绑定时手动指定了端口，不再查询 SRV 记录
+  explicitPort?: boolean
+  serverType: ServerType
+  protocol?: ServerProtocol
   timeout: number
-  minekuaiInstanceId?: string
+  panel?: string
+  instanceId?: string
+  apiKeyName?: string
   active: boolean
+  displayId: number
+  platform?: string
+  channelId?: string
+  notify?: boolean
+}
+
+export interface ServerShare {
+  id: number
+  serverId: number
+  groupId: string
+  displayId: number
+}
+
+export interface StatusHistory {
+  id: number
+  serverId: number
+  time: Date
+  online: boolean
+  players: number
+  latency: number
+  version: string
+}
+
+// 内存和磁盘单位为字节，上限为 0 表示面板未限制
+export interface ResourceHistory {
+  id: number
+  serverId: number
+  time: Date
+  cpu: number
+  cpuLimit: number
+  memory: number
+  memoryLimit: number
+  disk: number
+  diskLimit: number
+  networkRx: number
+  networkTx: number
+}
+
+export type ScheduleAction = 'start' | 'restart' | 'stop'
+
+export interface PowerSchedule {
+  id: number
+  serverId: number
+  userId: string
+  action: ScheduleAction
+  cron: string
+  countdown: number
+  lastRunAt: Date
+  createdAt: Date
+}
+
+export interface PermissionGrant {
+  id: number
+  groupId: string
+  // 0 表示本群的全部服务器
+  serverId: number
+  subjectType: 'user' | 'role'
+  subjectId: string
+  // PermissionAction 或 * 表示全部权限
+  action: string
+  grantedBy: string
+  createdAt: Date
+}
+
+export interface AuditLog {
+  id: number
+  groupId: string
+  // 0 表示与具体服务器无关的操作
+  serverId: number
+  // 记录操作时的服务器名称，解绑后仍可显示
+  serverName: string
+  userId: string
+  action: string
+  detail: string
+  success: boolean
+  retries: number
+  createdAt: Date
+}
+
+// 成员自己绑定的游戏名，每个平台账号只能绑定一个
+export interface PlayerBinding {
+  id: number
+  platform: string
+  userId: string
+  playerName: string
+  createdAt: Date
+}
+
+// 关注的玩家进入本群可见的服务器时，在关注时所在的频道 @ 关注者
+export interface PlayerWatch {
+  id: number
+  platform: string
+  groupId: string
+  channelId: string
+  userId: string
+  playerName: string
+  createdAt: Date
+}
+
+// 服务器与群聊的消息互通，webhook 令牌只保存哈希
+export interface ServerBridge {
+  id: number
+  serverId: number
+  enabled: boolean
+  tokenHash: string
+  createdAt: Date
+}
+
+// 修改服务器指令和控制台共用的修改参数
+export interface ServerUpdateInput {
+  name?: string
+  host?: string
+  port?: number
+  timeout?: number
+  panel?: string
+  instance?: string
+  type?: string
+  key?: string
+  protocol?: string
+  active?: boolean
+  explicitPort?: boolean
 }
 
 export interface ApiKeyConfig {
   id: number
   userId: string
   groupId: string
+  name: string
+  panel?: string
   apiKey: string
+  fingerprint: string
+}
+
+export interface PanelConfig {
+  id: string
+  type: PanelType
+  name: string
+  url: string
 }
 
 export interface Config {
   minekuaiApiUrl: string
+  apiKeySecret: string
+  panels: PanelConfig[]
   showIpInDetail: boolean
+  statusOutput: StatusOutput
   enablePermissionCheck: boolean
+  adminAuthority: number
+  allowMemberQueryCommands: boolean
   allowMemberPowerCommands: boolean
+  enableMonitor: boolean
+  monitorInterval: number
+  monitorOfflineThreshold: number
+  monitorPlayerChanges: boolean
+  enableHistory: boolean
+  historyRetentionDays: number
+  enableResourceMonitor: boolean
+  resourceInterval: number
+  resourceRetentionDays: number
+  cpuAlertThreshold: number
+  cpuAlertDuration: number
+  memoryAlertThreshold: number
+  memoryAlertDuration: number
+  diskAlertThreshold: number
+  auditLogRetentionDays: number
+  statusCacheTtl: number
+  queryConcurrency: number
+  queryUserCooldown: number
+  queryGroupCooldown: number
+  powerUserCooldown: number
+  powerGroupCooldown: number
+  allowAddressQuery: boolean
+  blockPrivateAddress: boolean
+  allowedQueryPorts: string[]
+  blockedQueryHosts: string[]
+  guardBoundServers: boolean
+  consoleCommandAllowlist: string[]
+  consoleCommandDenylist: string[]
+  consoleLogLines: number
+  powerActionTimeout: number
+  powerPollInterval: number
+  enableBridge: boolean
+  bridgePath: string
+  bridgeEvents: BridgeEventType[]
+  bridgeIgnorePrefixes: string[]
+  bridgeMaxLength: number
 }
 
 export const Config: Schema<Config> = Schema.intersect([
   Schema.object({
     minekuaiApiUrl: Schema.string().description('麦块API地址').default('https://minekuai.com/api/client'),
+    apiKeySecret: Schema.string().role('secret').default('').description('用于加密存储API密钥的密钥，留空时自动生成并保存在 data/minecraft-search/api-key-secret 中'),
   }).description('麦块联机配置'),
 
   Schema.object({
-    showIpInDetail: Schema.boolean().default(true).description('在查询详细状态时显示服务器IP地址')
+    panels: Schema.array(Schema.object({
+      id: Schema.string().required().description('面板ID，绑定服务器和API密钥时通过 --panel 指定，不能为 minekuai'),
+      type: Schema.union([
+        Schema.const('pterodactyl').description('Pterodactyl'),
+        Schema.const('mcsmanager').description('MCSManager'),
+      ]).default('pterodactyl').description('面板类型'),
+      name: Schema.string().default('').description('显示名称，留空时使用面板ID'),
+      url: Schema.string().required().description('Pterodactyl 填写客户端 API 地址（例如 https://panel.example.com/api/client），MCSManager 填写面板地址（例如 http://panel.example.com:23333）'),
+    })).default([]).description('其他面板，麦块联机始终可用，面板ID为 minekuai'),
+  }).description('面板配置'),
+
+  Schema.object({
+    showIpInDetail: Schema.boolean().default(true).description('在查询详细状态时显示服务器IP地址'),
+    statusOutput: Schema.union([
+      Schema.const('text').description('文本'),
+      Schema.const('image').description('图片（需要 puppeteer 服务）'),
+    ]).default('text').description('查服指令的默认输出方式'),
   }).description('显示配置'),
 
   Schema.object({
-    enablePermissionCheck: Schema.boolean().default(false).description('启用管理员权限检查'),
+    enablePermissionCheck: Schema.boolean().default(false).description('启用权限检查，关闭时所有成员都可以使用全部指令'),
+    adminAuthority: Schema.natural().default(3).description('Koishi 权限等级不低于该值的用户视为管理员（群主和群管理员始终视为管理员）'),
+    allowMemberQueryCommands: Schema.boolean().default(true).description('允许普通成员使用查服、统计、诊断、服务器列表指令'),
     allowMemberPowerCommands: Schema.boolean().default(true).description('允许普通成员使用开服、重启、强制重启指令')
-  }).description('权限配置（仅限onebot机器人使用）')
+  }).description('权限配置'),
+
+  Schema.object({
+    enableMonitor: Schema.boolean().default(false).description('启用后台状态监控'),
+    monitorInterval: Schema.number().min(10).default(60).description('状态轮询间隔（秒），同时用于监控推送和历史记录'),
+    monitorOfflineThreshold: Schema.natural().min(1).default(3).description('连续查询失败多少次后判定服务器离线'),
+    monitorPlayerChanges: Schema.boolean().default(true).description('推送玩家加入和离开通知'),
+  }).description('监控配置'),
+
+  Schema.object({
+    enableHistory: Schema.boolean().default(false).description('记录服务器状态历史，用于统计指令'),
+    historyRetentionDays: Schema.natural().min(1).default(30).description('状态历史保留天数'),
+  }).description('历史记录配置'),
+
+  Schema.object({
+    enableResourceMonitor: Schema.boolean().default(false).description('定时采集配置了面板实例ID的服务器的资源使用情况，用于资源告警和趋势图'),
+    resourceInterval: Schema.natural().min(10).default(60).description('资源采集间隔（秒）'),
+    resourceRetentionDays: Schema.natural().min(1).default(3).description('资源采集记录保留天数'),
+    cpuAlertThreshold: Schema.natural().max(100).default(95).description('CPU 使用率告警阈值（%，相对面板的 CPU 限制，未限制时相对单核），0 表示不告警'),
+    cpuAlertDuration: Schema.natural().default(60).description('CPU 使用率持续高于阈值多久后告警（秒）'),
+    memoryAlertThreshold: Schema.natural().max(100).default(90).description('内存使用率告警阈值（%），0 表示不告警'),
+    memoryAlertDuration: Schema.natural().default(300).description('内存使用率持续高于阈值多久后告警（秒）'),
+    diskAlertThreshold: Schema.natural().max(100).default(95).description('磁盘使用率告警阈值（%），超过后立即告警，0 表示不告警'),
+  }).description('资源监控配置'),
+
+  Schema.object({
+    auditLogRetentionDays: Schema.natural().min(1).default(90).description('操作日志保留天数'),
+  }).description('操作日志配置'),
+
+  Schema.object({
+    statusCacheTtl: Schema.natural().default(10).description('状态查询结果的缓存时间（秒），0 表示不缓存，同时发起的相同查询始终会合并为一次'),
+    queryConcurrency: Schema.natural().min(1).default(5).description('同时进行的服务器状态查询数量上限'),
+    queryUserCooldown: Schema.natural().default(3).description('同一成员两次使用查服、诊断指令的最短间隔（秒），0 表示不限制'),
+    queryGroupCooldown: Schema.natural().default(0).description('同一群两次使用查服、诊断指令的最短间隔（秒），0 表示不限制'),
+    powerUserCooldown: Schema.natural().default(30).description('同一成员两次使用电源指令的最短间隔（秒），0 表示不限制'),
+    powerGroupCooldown: Schema.natural().default(10).description('同一群两次使用电源指令的最短间隔（秒），0 表示不限制'),
+  }).description('频率限制配置'),
+
+  Schema.object({
+    allowAddressQuery: Schema.boolean().default(true).description('允许在查服、诊断指令中直接查询未绑定的地址'),
+    blockPrivateAddress: Schema.boolean().default(true).description('禁止直接查询内网、回环和链路本地地址，在域名解析后检查'),
+    allowedQueryPorts: Schema.array(String).default([]).description('允许直接查询的端口，支持 25565 或 25560-25580 格式，留空表示不限制'),
+    blockedQueryHosts: Schema.array(String).default([]).description('禁止直接查询的主机，支持域名、*.域名、IP 地址和 CIDR 网段'),
+    guardBoundServers: Schema.boolean().default(true).description('绑定和查询已绑定的服务器时同样检查内网地址、端口和主机限制，机器人需要查询内网服务器时关闭'),
+  }).description('地址查询限制'),
+
+  Schema.object({
+    consoleCommandAllowlist: Schema.array(String).default([]).description('允许执行的控制台指令前缀，按完整单词匹配，留空表示不限制；execute 的 run 子指令也需要在列表中'),
+    consoleCommandDenylist: Schema.array(String).default(['op', 'deop', 'stop', 'restart', 'reload']).description('禁止执行的控制台指令前缀，按完整单词匹配，execute 的 run 子指令同样会检查，优先于允许列表'),
+    consoleLogLines: Schema.natural().min(1).max(100).default(20).description('查看控制台日志时默认显示的行数'),
+  }).description('控制台配置'),
+
+  Schema.object({
+    powerActionTimeout: Schema.natural().min(30).default(300).description('等待电源操作完成的最长时间（秒）'),
+    powerPollInterval: Schema.natural().min(1).default(5).description('电源操作期间轮询服务器状态的间隔（秒）'),
+  }).description('电源操作配置'),
+
+  Schema.object({
+    enableBridge: Schema.boolean().default(false).description('启用群聊与游戏内聊天的消息互通，需要在每台服务器上使用 互通 指令开启'),
+    bridgePath: Schema.string().default('/minecraft/bridge').description('接收服务端插件推送的 webhook 路径，需要 server 服务'),
+    bridgeEvents: Schema.array(Schema.union([
+      Schema.const('chat').description('聊天'),
+      Schema.const('join').description('加入'),
+      Schema.const('leave').description('离开'),
+      Schema.const('death').description('死亡'),
+      Schema.const('advancement').description('进度'),
+    ])).default([...BRIDGE_EVENT_TYPES]).role('checkbox').description('转发到群内的游戏事件'),
+    bridgeIgnorePrefixes: Schema.array(String).default(['/', '.', '!', '！', '#']).description('以这些前缀开头的群消息视为机器人指令，不转发到游戏内'),
+    bridgeMaxLength: Schema.natural().min(10).default(256).description('转发到游戏内的单条消息最大长度'),
+  }).description('消息互通配置'),
 ])
 
 export const inject = {
   required: ['database'],
+  optional: ['puppeteer', 'console', 'server'],
+}
+
+export interface ConsoleServer {
+  id: number
+  displayId: number
+  name: string
+  host: string
+  port: number
+  serverType: ServerType
+  protocol: ServerProtocol
+  timeout: number
+  panel: string
+  instanceId: string
+  apiKeyName: string
+  active: boolean
+}
+
+// 控制台只能看到密钥指纹，看不到密钥本身
+export interface ConsoleApiKey {
+  name: string
+  panel: string
+  fingerprint: string
+  userId: string
+  encrypted: boolean
+}
+
+export interface ConsolePanel {
+  id: string
+  name: string
+}
+
+export interface ConsoleGroup {
+  groupId: string
+  servers: ConsoleServer[]
+  apiKeys: ConsoleApiKey[]
+}
+
+export interface ConsoleServerStatus {
+  online: boolean
+  error?: string
+  motd?: string
+  version?: string
+  players?: { online: number, max: number }
+  latency?: number
+  resources?: {
+    state: string
+    cpu: number
+    memory: number
+    disk: number
+    uptime: number
+  }
+  resourceError?: string
+}
+
+declare module '@koishijs/plugin-console' {
+  interface Events {
+    'minecraft/groups'(): Promise<ConsoleGroup[]>
+    'minecraft/panels'(): Promise<ConsolePanel[]>
+    'minecraft/status'(id: number): Promise<ConsoleServerStatus>
+    'minecraft/update'(id: number, input: ServerUpdateInput): Promise<ConsoleServer>
+    'minecraft/set-api-key'(groupId: string, name: string, apiKey: string, panel?: string): Promise<ConsoleApiKey>
+    'minecraft/remove-api-key'(groupId: string, name: string): Promise<void>
+  }
 }
 
 declare module 'koishi' {
   interface Tables {
     minecraft_server: ServerConfig
     minecraft_api_key: ApiKeyConfig
+    minecraft_status_history: StatusHistory
+    minecraft_resource_history: ResourceHistory
+    minecraft_server_share: ServerShare
+    minecraft_schedule: PowerSchedule
+    minecraft_permission: PermissionGrant
+    minecraft_audit_log: AuditLog
+    minecraft_player: PlayerBinding
+    minecraft_player_watch: PlayerWatch
+    minecraft_bridge: ServerBridge
   }
 }
 
@@ -68,10 +436,18 @@ export function apply(ctx: Context, config: Config) {
     name: 'string',
     host: 'string',
     port: 'integer',
+    explicitPort: 'boolean',
     serverType: 'string',
+    protocol: 'string',
     timeout: 'float',
-    minekuaiInstanceId: 'string',
+    panel: 'string',
+    instanceId: { type: 'string', legacy: ['minekuaiInstanceId'] },
+    apiKeyName: 'string',
     active: 'boolean',
+    displayId: 'unsigned',
+    platform: 'string',
+    channelId: 'string',
+    notify: 'boolean',
   }, {
     autoInc: true,
     primary: 'id'
@@ -81,661 +457,4083 @@ export function apply(ctx: Context, config: Config) {
     id: 'unsigned',
     userId: 'string',
     groupId: 'string',
+    name: 'string',
+    panel: 'string',
     apiKey: 'string',
+    fingerprint: 'string',
   }, {
     autoInc: true,
     primary: 'id'
   })
 
-  function parseServerAddress(hostString: string, defaultPort: number) {
-    if (hostString.includes(':')) {
-      const [host, portStr] = hostString.split(':')
-      const port = parseInt(portStr)
-      return {
-        host: host,
-        port: isNaN(port) ? defaultPort : port
+  ctx.model.extend('minecraft_server_share', {
+    id: 'unsigned',
+    serverId: 'unsigned',
+    groupId: 'string',
+    displayId: 'unsigned',
+  }, {
+    autoInc: true,
+    primary: 'id'
+  })
+
+  ctx.model.extend('minecraft_status_history', {
+    id: 'unsigned',
+    serverId: 'unsigned',
+    time: 'timestamp',
+    online: 'boolean',
+    players: 'integer',
+    latency: 'integer',
+    version: 'string',
+  }, {
+    autoInc: true,
+    primary: 'id'
+  })
+
+  ctx.model.extend('minecraft_resource_history', {
+    id: 'unsigned',
+    serverId: 'unsigned',
+    time: 'timestamp',
+    cpu: 'double',
+    cpuLimit: 'double',
+    memory: 'double',
+    memoryLimit: 'double',
+    disk: 'double',
+    diskLimit: 'double',
+    networkRx: 'double',
+    networkTx: 'double',
+  }, {
+    autoInc: true,
+    primary: 'id'
+  })
+
+  ctx.model.extend('minecraft_schedule', {
+    id: 'unsigned',
+    serverId: 'unsigned',
+    userId: 'string',
+    action: 'string',
+    cron: 'string',
+    countdown: 'unsigned',
+    lastRunAt: 'timestamp',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+    primary: 'id'
+  })
+
+  ctx.model.extend('minecraft_permission', {
+    id: 'unsigned',
+    groupId: 'string',
+    serverId: 'unsigned',
+    subjectType: 'string',
+    subjectId: 'string',
+    action: 'string',
+    grantedBy: 'string',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+    primary: 'id'
+  })
+
+  ctx.model.extend('minecraft_audit_log', {
+    id: 'unsigned',
+    groupId: 'string',
+    serverId: 'unsigned',
+    serverName: 'string',
+    userId: 'string',
+    action: 'string',
+    detail: 'text',
+    success: 'boolean',
+    retries: 'unsigned',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+    primary: 'id'
+  })
+
+  ctx.model.extend('minecraft_player', {
+    id: 'unsigned',
+    platform: 'string',
+    userId: 'string',
+    playerName: 'string',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+    primary: 'id'
+  })
+
+  ctx.model.extend('minecraft_bridge', {
+    id: 'unsigned',
+    serverId: 'unsigned',
+    enabled: 'boolean',
+    tokenHash: 'string',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+    primary: 'id'
+  })
+
+  ctx.model.extend('minecraft_player_watch', {
+    id: 'unsigned',
+    platform: 'string',
+    groupId: 'string',
+    channelId: 'string',
+    userId: 'string',
+    playerName: 'string',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+    primary: 'id'
+  })
+
+  // 群内ID与共享服务器的群内ID共用同一序列
+  async function allocateDisplayId(groupId: string) {
+    const servers = await ctx.database.get('minecraft_server', { groupId }, ['displayId'])
+    const shares = await ctx.database.get('minecraft_server_share', { groupId }, ['displayId'])
+    return Math.max(0, ...servers.map(s => s.displayId || 0), ...shares.map(s => s.displayId || 0)) + 1
+  }
+
+  async function migrateDisplayIds() {
+    const servers = await ctx.database.get('minecraft_server', {})
+    const pending = servers.filter(server => !server.displayId).sort((a, b) => a.id - b.id)
+    if (pending.length === 0) return
+
+    const lastIds = new Map<string, number>()
+    for (const server of servers) {
+      if (server.displayId) {
+        lastIds.set(server.groupId, Math.max(lastIds.get(server.groupId) || 0, server.displayId))
       }
     }
-    return {
-      host: hostString,
-      port: defaultPort
+    for (const server of pending) {
+      const displayId = (lastIds.get(server.groupId) || 0) + 1
+      lastIds.set(server.groupId, displayId)
+      await ctx.database.set('minecraft_server', { id: server.id }, { displayId })
     }
+    ctx.logger.info(`已为 ${pending.length} 台旧服务器分配群内ID`)
   }
 
-  async function minekuaiApiRequest(instanceId: string, operation: string, groupId: string, maxRetries = 3) {
-    const apiKeys = await ctx.database.get('minecraft_api_key', { groupId })
-    if (!apiKeys || apiKeys.length === 0) {
-      throw new Error('本群未配置麦块API密钥，请先使用 绑定API密钥 指令')
-    }
-    const apiKeyRecord = apiKeys[0]
+  ctx.on('ready', migrateDisplayIds)
 
-    const baseUrl = config.minekuaiApiUrl.replace(/\/+$/, '')
-    const url = `${baseUrl}/servers/${instanceId}/power`
-    const headers = {
-      'Authorization': `Bearer ${apiKeyRecord.apiKey}`,
-      'Content-Type': 'application/json',
-      'Accept': 'application/json'
-    }
-    const body = JSON.stringify({ signal: operation })
+  // 本群绑定的服务器加上其他群共享到本群的服务器，displayId 均为本群内的ID
+  async function getVisibleServers(groupId: string): Promise<(ServerConfig & { shared?: boolean })[]> {
+    const owned = await ctx.database.get('minecraft_server', { groupId })
+    const shares = await ctx.database.get('minecraft_server_share', { groupId })
+    const sharedServers = shares.length === 0 ? [] : await ctx.database.get('minecraft_server', {
+      id: shares.map(share => share.serverId),
+    })
+    const shared = shares.flatMap((share) => {
+      const server = sharedServers.find(s => s.id === share.serverId)
+      return server ? [{ ...server, displayId: share.displayId, shared: true }] : []
+    })
+    return [...owned, ...shared].sort((a, b) => a.displayId - b.displayId)
+  }
 
-    let lastError: Error
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        const response = await ctx.http.post(url, body, { headers })
-        ctx.logger.info(`麦块API请求成功: 实例 ${instanceId} 操作 ${operation} (第${attempt}次尝试)`)
-        return response
-      } catch (error) {
-        lastError = error
-        ctx.logger.warn(`麦块API请求失败 (第${attempt}次尝试):`, error)
-        if (attempt < maxRetries) {
-          await new Promise(resolve => setTimeout(resolve, 1000 * attempt))
-        }
-      }
-    }
-    throw new Error(`麦块API请求失败，已重试${maxRetries}次: ${lastError.message}`)
+  async function findOwnedServer(groupId: string, displayId: number) {
+    const [server] = await ctx.database.get('minecraft_server', { groupId, displayId })
+    return server
   }
 
-  async function queryServerStatus(server: ServerConfig) {
-    try {
-      if (!getMinecraftServerStatus) {
-        throw new Error('mc-server-util 模块未正确加载')
-      }
+  async function findVisibleServer(groupId: string, displayId: number) {
+    const servers = await getVisibleServers(groupId)
+    return servers.find(server => server.displayId === displayId)
+  }
 
-      const { host, port } = parseServerAddress(server.host, server.port || 25565)
-      const timeout = (server.timeout || 5.0) * 1000
+  function getDefaultPort(serverType: string) {
+    return serverType === 'bedrock' ? DEFAULT_PORTS.bedrock : DEFAULT_PORTS.java
+  }
 
-      let result
-      if (server.serverType === 'bedrock') {
-        throw new Error('Bedrock服务器暂不支持')
-      } else {
-        result = await getMinecraftServerStatus(host, port, {
-          timeout: timeout,
-          debug: false
-        })
-      }
+  function getServerAddress(server: ServerConfig): ServerAddress {
+    return { host: server.host, port: server.port || getDefaultPort(server.serverType) }
+  }
 
-      return {
-        success: true,
-        data: result,
-        server: server
-      }
-    } catch (error) {
-      let errorMessage = error instanceof Error ? error.message : String(error)
+  const lookupSrv = createSrvLookup()
 
-      errorMessage = errorMessage.replace(/connect ECONNREFUSED/i, '服务器已关闭')
-      errorMessage = errorMessage.replace(/connect ETIMEDOUT/i, '网络波动，请稍后尝试')
-      errorMessage = errorMessage.replace(/connect ENOTFOUND/i, '网络波动，请稍后尝试')
-      errorMessage = errorMessage.replace(/getaddrinfo EAI_AGAIN/i, '网络波动，请稍后尝试')
+  // 与客户端行为一致：Java 版没有指定端口时优先查询 _minecraft._tcp SRV 记录
+  async function resolveServerTarget(server: ServerConfig) {
+    const address = getServerAddress(server)
+    if (server.serverType === 'bedrock' || server.explicitPort || address.port !== DEFAULT_PORTS.java) return address
+    return await lookupSrv(address.host) || address
+  }
 
-      errorMessage = errorMessage.replace(/\s+(\d+\.\d+\.\d+\.\d+):\d+/, '')
-      errorMessage = errorMessage.replace(/\s+[\w.-]+$/, '')
-      errorMessage = errorMessage.replace(/\s+[a-zA-Z0-9][a-zA-Z0-9.-]*:[0-9]+/, '')
+  const addressGuard = createAddressGuard({
+    blockPrivate: config.blockPrivateAddress,
+    allowedPorts: config.allowedQueryPorts,
+    blockedHosts: config.blockedQueryHosts,
+  })
 
-      return {
-        success: false,
-        error: errorMessage,
-        server: server
-      }
+  // 检查直接查询（或绑定）的地址，同时检查 SRV 记录指向的地址，拒绝时记录日志
+  async function guardAddress(session: Session, server: ServerConfig, binding = false): Promise<string | null> {
+    let reason: string
+    if (!binding && !config.allowAddressQuery) {
+      reason = '未开放直接查询地址，请查询本群绑定的服务器'
+    } else {
+      const target = await resolveServerTarget(server)
+      reason = await addressGuard.checkAddress([...new Set([server.host, target.host])], target.port)
     }
+    if (!reason) return null
+
+    const address = formatAddress(getServerAddress(server))
+    ctx.logger.warn(`已拒绝群 ${session.guildId} 的用户 ${session.userId} ${binding ? '绑定' : '查询'} ${address}: ${reason}`)
+    await writeAuditLog({
+      groupId: session.guildId,
+      userId: session.userId,
+      action: 'address.denied',
+      success: false,
+      detail: `${binding ? '绑定' : '查询'} ${address}：${reason}`,
+    })
+    return `❌ 已拒绝${binding ? '绑定' : '查询'}该地址：${reason}`
   }
 
-  function getServerName(server: ServerConfig) {
-    return server.name || 'Minecraft 服务器'
+  const PROTOCOL_NAMES: Record<ServerProtocol, string> = {
+    auto: '自动',
+    legacy: '旧版',
+    query: 'Query',
   }
 
-  async function checkPermission(session: any, config: Config, isPowerCommand = false): Promise<string | null> {
-    if (!config.enablePermissionCheck) {
-      return null
-    }
-
-    if (isPowerCommand && config.allowMemberPowerCommands) {
-      return null
-    }
-
-    const memberInfo = session.event?.member?.roles
-    if (!memberInfo || !memberInfo.some((role: any) => role.name === "admin" || role.name === "owner" || role.id === "admin" || role.id === "owner")) {
-      return "❌ 仅限管理员和群主使用该指令。"
-    }
+  function parseServerProtocol(protocol: string): ServerProtocol | null {
+    if (!protocol) return null
+    const normalized = protocol.toLowerCase()
+    if (normalized === 'auto' || normalized === '自动') return 'auto'
+    if (normalized === 'legacy' || normalized === '旧版') return 'legacy'
+    if (normalized === 'query') return 'query'
+    return null
+  }
 
+  function parseServerType(type: string): ServerType | null {
+    if (!type) return null
+    const normalized = type.toLowerCase()
+    if (normalized === 'java' || normalized === 'je') return 'java'
+    if (normalized === 'bedrock' || normalized === 'be' || normalized === 'pe') return 'bedrock'
     return null
   }
 
-  function formatShortStatus(result: any, server: ServerConfig) {
-    const displayName = getServerName(server)
-    if (!result.online) {
-      return `🔴 ${displayName} - 离线`
+  const API_KEY_SECRET_FILE = 'data/minecraft-search/api-key-secret'
+
+  // 未配置 apiKeySecret 时使用自动生成的密钥，密钥文件与数据库分开保存
+  let apiKeySecret: Promise<string>
+
+  function getApiKeySecret() {
+    if (!apiKeySecret) {
+      apiKeySecret = config.apiKeySecret
+        ? Promise.resolve(config.apiKeySecret)
+        : loadOrCreateSecret(resolve(ctx.baseDir, API_KEY_SECRET_FILE))
+      apiKeySecret.catch(() => apiKeySecret = null)
     }
+    return apiKeySecret
+  }
 
-    const players = result.players ? `${result.players.online}/${result.players.max}` : 'N/A'
-    const version = result.version ? result.version.name : 'N/A'
+  async function sealApiKey(apiKey: string) {
+    return encryptSecret(apiKey, await getApiKeySecret())
+  }
 
-    return `🟢 ${displayName} - 在线 | 玩家: ${players} | 版本: ${version}`
+  async function openApiKey(record: ApiKeyConfig) {
+    return decryptSecret(record.apiKey, await getApiKeySecret())
   }
 
-  function formatDetailedStatus(result: any, server: ServerConfig, showIp: boolean) {
-    const displayName = getServerName(server)
-    if (!result.online) {
-      return `🔴 ${displayName} 当前离线`
+  async function migrateApiKeys() {
+    try {
+      await getApiKeySecret()
+    } catch (error) {
+      ctx.logger.warn(`无法读取或生成API密钥加密密钥 ${API_KEY_SECRET_FILE}:`, error)
+      return
+    }
+    if (!config.apiKeySecret) {
+      ctx.logger.info(`未配置 apiKeySecret，使用自动生成的密钥 ${API_KEY_SECRET_FILE} 加密API密钥`)
     }
 
-    let motdText = '暂无描述'
-    if (result.description) {
-      let descriptionStr = result.description
-      if (typeof descriptionStr !== 'string') {
-        if (typeof descriptionStr === 'object' && descriptionStr !== null) {
-          if (descriptionStr.text) {
-            descriptionStr = descriptionStr.text
-          } else {
-            descriptionStr = JSON.stringify(descriptionStr)
-          }
-        } else {
-          descriptionStr = String(descriptionStr)
+    const apiKeys = await ctx.database.get('minecraft_api_key', {})
+    let migrated = 0
+    for (const record of apiKeys) {
+      const encrypted = isEncrypted(record.apiKey)
+      const updates: Partial<ApiKeyConfig> = {}
+      if (!record.name) {
+        updates.name = DEFAULT_API_KEY_NAME
+      }
+      try {
+        if (!record.fingerprint || !encrypted) {
+          const apiKey = await openApiKey(record)
+          updates.apiKey = encrypted ? record.apiKey : await sealApiKey(apiKey)
+          updates.fingerprint = record.fingerprint || getFingerprint(apiKey)
         }
+        if (Object.keys(updates).length === 0) continue
+        await ctx.database.set('minecraft_api_key', { id: record.id }, updates)
+        migrated++
+      } catch (error) {
+        ctx.logger.warn(`迁移群 ${record.groupId} 的API密钥失败:`, error)
       }
-      descriptionStr = descriptionStr.replace(/§[0-9a-fk-or]/gi, '')
-      motdText = descriptionStr.replace(/\n/g, ' ').replace(/\s+/g, ' ').trim()
     }
+    if (migrated > 0) {
+      ctx.logger.info(`已迁移 ${migrated} 个API密钥`)
+    }
+  }
 
-    let message = `🟢 ${displayName} 状态信息\n`
+  ctx.on('ready', migrateApiKeys)
 
-    if (showIp) {
-      const { host, port } = parseServerAddress(server.host, server.port || 25565)
-      message += `📡 地址: ${host}:${port}\n`
+  const DEFAULT_PANEL = 'minekuai'
+
+  const panels = new Map<string, PanelProvider>([
+    [DEFAULT_PANEL, createPterodactylPanel(ctx.http, { name: '麦块', url: config.minekuaiApiUrl })],
+  ])
+  for (const panel of config.panels) {
+    if (panel.id === DEFAULT_PANEL || panels.has(panel.id)) {
+      ctx.logger.warn(`面板ID ${panel.id} 重复，已忽略该面板`)
+      continue
     }
+    const options = { name: panel.name || panel.id, url: panel.url }
+    panels.set(panel.id, panel.type === 'mcsmanager' ? createMcsmanagerPanel(ctx.http, options) : createPterodactylPanel(ctx.http, options))
+  }
 
-    message += `🎮 类型: ${server.serverType || 'Java'}\n`
+  // 旧数据没有面板字段，视为麦块联机
+  function getPanelId(record: { panel?: string }) {
+    return record.panel || DEFAULT_PANEL
+  }
 
-    if (result.version) {
-      message += `📦 版本: ${result.version.name}\n`
+  function getPanel(panelId: string) {
+    const panel = panels.get(panelId)
+    if (!panel) {
+      throw new Error(`未找到ID为 ${panelId} 的面板，请检查插件配置`)
     }
+    return panel
+  }
 
-    if (result.players) {
-      message += `👥 人数: ${result.players.online}/${result.players.max}\n`
-      if (result.players.sample && result.players.sample.length > 0) {
-        const allPlayers = result.players.sample.map(p => p.name).join(', ')
-        message += `👤 在线玩家: ${allPlayers}\n`
-      }
-    }
+  function getPanelName(panelId: string) {
+    return panels.get(panelId)?.name || panelId
+  }
+
+  function checkPanelId(panelId: string): string | null {
+    if (panels.has(panelId)) return null
+    return `❌ 未找到ID为 ${panelId} 的面板，可用的面板：${[...panels.keys()].join('、')}`
+  }
+
+  // 电源、资源、控制台和备份指令要求服务器设置了实例ID，且所在面板仍在配置中
+  function checkPanelServer(server: ServerConfig): string | null {
+    if (!server.instanceId) {
+      return `${getServerName(server)} 未配置面板实例ID`
+    }
+    if (!panels.has(getPanelId(server))) {
+      return `❌ ${getServerName(server)} 所在的面板 ${getPanelId(server)} 已不在插件配置中`
+    }
+    return null
+  }
+
+  // 只使用与服务器同一面板的密钥，指定了密钥名称时密钥也必须属于该面板
+  async function resolveApiKey(server: Pick<ServerConfig, 'groupId' | 'name' | 'panel' | 'apiKeyName'>) {
+    const panelId = getPanelId(server)
+    const panelName = getPanelName(panelId)
+    const allKeys = await ctx.database.get('minecraft_api_key', { groupId: server.groupId })
+    const apiKeys = allKeys.filter(record => getPanelId(record) === panelId)
+
+    const displayName = getServerName(server as ServerConfig)
+    if (server.apiKeyName) {
+      const apiKeyRecord = allKeys.find(record => record.name === server.apiKeyName)
+      if (!apiKeyRecord) {
+        throw new Error(`${displayName} 使用的API密钥「${server.apiKeyName}」不存在，请重新绑定该密钥或使用 修改服务器 -k 指定其他密钥`)
+      }
+      if (getPanelId(apiKeyRecord) !== panelId) {
+        throw new Error(`${displayName} 使用的API密钥「${server.apiKeyName}」属于${getPanelName(getPanelId(apiKeyRecord))}面板，与服务器所在的${panelName}面板不一致`)
+      }
+      return apiKeyRecord
+    }
+
+    if (apiKeys.length === 0) {
+      throw new Error(`本群未配置${panelName}面板的API密钥，请先使用 绑定API密钥 指令`)
+    }
+    if (apiKeys.length === 1) {
+      return apiKeys[0]
+    }
+    const defaultKey = apiKeys.find(record => record.name === DEFAULT_API_KEY_NAME)
+    if (defaultKey) {
+      return defaultKey
+    }
+    throw new Error(`本群绑定了多个${panelName}面板的API密钥，请使用 修改服务器 -k 为 ${displayName} 指定要使用的密钥`)
+  }
+
+  // 绑定时校验密钥是否有效，指定实例时还会校验该密钥能否访问这个实例
+  async function validateApiKey(apiKeyRecord: ApiKeyConfig, instanceId?: string) {
+    const panel = getPanel(getPanelId(apiKeyRecord))
+    try {
+      await panel.validate(await openApiKey(apiKeyRecord), instanceId)
+    } catch (error) {
+      const status = error?.response?.status
+      if (status === 401 || status === 403) {
+        throw new Error(`API密钥「${apiKeyRecord.name}」无效或无权访问${instanceId ? `实例 ${instanceId}` : `${panel.name}面板`}`)
+      }
+      if (status === 404 && instanceId) {
+        throw new Error(`API密钥「${apiKeyRecord.name}」所属账号下找不到实例 ${instanceId}`)
+      }
+      throw new Error(`API密钥校验失败: ${error.message}`)
+    }
+  }
+
+  // 绑定或修改服务器时校验所选密钥存在且能访问实例，返回错误信息
+  async function checkInstanceAccess(server: Pick<ServerConfig, 'groupId' | 'name' | 'panel' | 'apiKeyName' | 'instanceId'>): Promise<string | null> {
+    if (!server.instanceId && !server.apiKeyName) return null
+
+    // 尚未绑定该面板的密钥时跳过校验，允许先绑定服务器再绑定密钥
+    const apiKeys = await ctx.database.get('minecraft_api_key', { groupId: server.groupId })
+    if (!apiKeys.some(record => getPanelId(record) === getPanelId(server)) && !server.apiKeyName) return null
+
+    try {
+      const apiKeyRecord = await resolveApiKey(server)
+      if (server.instanceId) {
+        await validateApiKey(apiKeyRecord, server.instanceId)
+      }
+      return null
+    } catch (error) {
+      return `❌ ${error.message}`
+    }
+  }
+
+  interface AuditActor {
+    userId: string
+    detail: string
+  }
+
+  interface AuditEntry {
+    groupId: string
+    userId: string
+    action: string
+    server?: ServerConfig
+    detail?: string
+    success?: boolean
+    retries?: number
+  }
+
+  // 谁在什么时候做了什么，写入失败不影响操作本身
+  async function writeAuditLog(entry: AuditEntry) {
+    try {
+      await ctx.database.create('minecraft_audit_log', {
+        groupId: entry.groupId,
+        serverId: entry.server?.id ?? 0,
+        serverName: entry.server ? getServerName(entry.server) : '',
+        userId: entry.userId,
+        action: entry.action,
+        detail: entry.detail ?? '',
+        success: entry.success ?? true,
+        retries: entry.retries ?? 0,
+        createdAt: new Date(),
+      })
+    } catch (error) {
+      ctx.logger.warn(`记录操作日志 ${entry.action} 失败:`, error)
+    }
+  }
+
+  async function pruneAuditLog() {
+    const cutoff = new Date(Date.now() - config.auditLogRetentionDays * 86400 * 1000)
+    try {
+      await ctx.database.remove('minecraft_audit_log', { createdAt: { $lt: cutoff } })
+    } catch (error) {
+      ctx.logger.warn('清理操作日志失败:', error)
+    }
+  }
+
+  ctx.on('ready', pruneAuditLog)
+  ctx.setInterval(pruneAuditLog, 3600 * 1000)
+
+  // 返回需要写入的字段和校验失败时的错误信息
+  async function prepareServerUpdates(server: ServerConfig, input: ServerUpdateInput): Promise<{ updates: Partial<ServerConfig>, error?: string }> {
+    const updates: Partial<ServerConfig> = {}
+    if (input.name) {
+      updates.name = input.name
+    }
+    if (input.timeout > 0) {
+      updates.timeout = input.timeout
+    }
+    if (input.panel && input.panel !== getPanelId(server)) {
+      const panelError = checkPanelId(input.panel)
+      if (panelError) {
+        return { updates, error: panelError }
+      }
+      updates.panel = input.panel
+    }
+    if (input.instance) {
+      updates.instanceId = input.instance
+    }
+    if (input.type) {
+      const serverType = parseServerType(input.type)
+      if (!serverType) {
+        return { updates, error: '❌ 服务器类型只能为 java 或 bedrock' }
+      }
+      if (serverType !== server.serverType) {
+        updates.serverType = serverType
+        // 端口仍为原类型的默认端口时，随类型一起切换
+        if (input.port === undefined && server.port === getDefaultPort(server.serverType)) {
+          updates.port = getDefaultPort(serverType)
+        }
+      }
+    }
+
+    if (input.host !== undefined || input.port !== undefined) {
+      const port = input.port ?? server.port
+      let address: ServerAddress
+      try {
+        address = parseServerAddress(formatAddress({ host: input.host ?? server.host, port }), port)
+      } catch (error) {
+        return { updates, error: `❌ ${error.message}` }
+      }
+      if (address.host !== server.host || address.port !== server.port) {
+        const existing = await ctx.database.get('minecraft_server', { groupId: server.groupId, host: address.host, port: address.port })
+        if (existing.some(item => item.id !== server.id)) {
+          return { updates, error: `❌ 该服务器已在本群绑定，服务器ID为: ${existing[0].displayId}` }
+        }
+        if (address.host !== server.host) updates.host = address.host
+        if (address.port !== server.port) updates.port = address.port
+      }
+      // 手动修改端口后视为指定了端口
+      if (input.port !== undefined && input.explicitPort === undefined && !server.explicitPort) {
+        updates.explicitPort = true
+      }
+    }
+
+    if (input.explicitPort !== undefined && input.explicitPort !== !!server.explicitPort) {
+      updates.explicitPort = input.explicitPort
+    }
+
+    if (input.key) {
+      updates.apiKeyName = input.key
+    }
+
+    if (input.protocol) {
+      const protocol = parseServerProtocol(input.protocol)
+      if (!protocol) {
+        return { updates, error: '❌ 查询协议只能为 auto、legacy 或 query' }
+      }
+      updates.protocol = protocol
+    }
+
+    if ((updates.serverType || server.serverType) === 'bedrock') {
+      if (updates.protocol && updates.protocol !== 'auto') {
+        return { updates, error: '❌ 基岩版服务器不支持设置查询协议' }
+      }
+      // 切换为基岩版时恢复自动协议
+      if (updates.serverType && server.protocol && server.protocol !== 'auto') {
+        updates.protocol = 'auto'
+      }
+    }
+
+    // 兼容旧数据：null 也视为活跃
+    if (typeof input.active === 'boolean' && input.active !== (server.active !== false)) {
+      updates.active = input.active
+    }
+
+    if (updates.panel || updates.instanceId || updates.apiKeyName) {
+      const accessError = await checkInstanceAccess({ ...server, ...updates })
+      if (accessError) {
+        return { updates, error: accessError }
+      }
+    }
+
+    return { updates }
+  }
+
+  function describeServerUpdates(updates: Partial<ServerConfig>) {
+    const parts = []
+    if (updates.name) parts.push(`名称: ${updates.name}`)
+    if (updates.host) parts.push(`主机: ${updates.host}`)
+    if (updates.timeout) parts.push(`超时: ${updates.timeout}秒`)
+    if (updates.panel) parts.push(`面板: ${getPanelName(updates.panel)}`)
+    if (updates.instanceId) parts.push(`实例ID: ${updates.instanceId}`)
+    if (updates.apiKeyName) parts.push(`API密钥: ${updates.apiKeyName}`)
+    if (updates.serverType) parts.push(`类型: ${updates.serverType}`)
+    if (updates.port) parts.push(`端口: ${updates.port}`)
+    if (updates.protocol) parts.push(`查询协议: ${PROTOCOL_NAMES[updates.protocol]}`)
+    if (updates.active !== undefined) parts.push(`状态: ${updates.active ? '活跃' : '不活跃'}`)
+    return parts
+  }
+
+  // 校验并保存API密钥，同名密钥会被覆盖
+  async function storeApiKey(groupId: string, name: string, panel: string, apiKey: string, userId: string) {
+    const record = {
+      name,
+      panel,
+      apiKey: await sealApiKey(apiKey),
+      fingerprint: getFingerprint(apiKey),
+    }
+    await validateApiKey({ ...record, id: 0, userId, groupId })
+
+    const existingKeys = await ctx.database.get('minecraft_api_key', { groupId, name })
+    if (existingKeys.length > 0) {
+      await ctx.database.set('minecraft_api_key', { groupId, name }, { ...record, userId })
+    } else {
+      await ctx.database.create('minecraft_api_key', { ...record, userId, groupId })
+    }
+
+    const action = existingKeys.length > 0 ? '更新' : '绑定'
+    await writeAuditLog({ groupId, userId, action: 'apikey.bind', detail: `${action}「${name}」（${getPanelName(panel)}），指纹 ${formatFingerprint(record.fingerprint)}` })
+    return { fingerprint: record.fingerprint, action }
+  }
+
+  // 面板请求统一在这里解析密钥、重试和记录日志，频繁的请求可以只在 debug 级别记录成功日志
+  async function panelRequest<T>(server: ServerConfig, operation: string, task: (panel: PanelProvider, target: PanelTarget) => Promise<T>, maxRetries = 3, onAttempt?: (attempt: number) => void, logLevel: 'info' | 'debug' = 'info') {
+    const panel = getPanel(getPanelId(server))
+    const apiKeyRecord = await resolveApiKey(server)
+    const target = { apiKey: await openApiKey(apiKeyRecord), instanceId: server.instanceId }
+
+    let lastError: Error
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      onAttempt?.(attempt)
+      try {
+        const result = await task(panel, target)
+        ctx.logger[logLevel](`${panel.name}面板请求成功: 实例 ${server.instanceId} 操作 ${operation} (第${attempt}次尝试)`)
+        return result
+      } catch (error) {
+        lastError = error
+        ctx.logger.warn(`${panel.name}面板请求失败 (第${attempt}次尝试):`, error)
+        if (attempt < maxRetries) {
+          await new Promise(resolve => setTimeout(resolve, 1000 * attempt))
+        }
+      }
+    }
+    if (maxRetries <= 1) {
+      throw new Error(`${panel.name}面板请求失败: ${lastError.message}`)
+    }
+    throw new Error(`${panel.name}面板请求失败，已重试${maxRetries}次: ${lastError.message}`)
+  }
+
+  // 每次发送电源信号都会记录操作日志，detail 说明信号的来源
+  async function sendPowerSignal(server: ServerConfig, signal: PowerSignal, actor: AuditActor, maxRetries = 3) {
+    let attempts = 0
+    const entry = { groupId: server.groupId, userId: actor.userId, action: `power.${signal}`, server, detail: actor.detail }
+    try {
+      await panelRequest(server, `power ${signal}`, (panel, target) => panel.sendPower(target, signal), maxRetries, (attempt) => attempts = attempt)
+      await writeAuditLog({ ...entry, retries: attempts - 1 })
+    } catch (error) {
+      await writeAuditLog({ ...entry, success: false, retries: Math.max(attempts - 1, 0), detail: `${actor.detail}：${error.message}` })
+      throw error
+    }
+  }
+
+  async function sendConsoleCommand(server: ServerConfig, command: string) {
+    return panelRequest(server, 'command', (panel, target) => panel.sendCommand(target, command), 1)
+  }
+
+  async function fetchConsoleLogs(server: ServerConfig, lines: number) {
+    return panelRequest(server, 'logs', (panel, target) => panel.fetchLogs(target, lines), 1)
+  }
+
+  async function listBackups(server: ServerConfig) {
+    return panelRequest(server, 'backups', (panel, target) => panel.backups.list(target))
+  }
+
+  async function createBackup(server: ServerConfig, name?: string) {
+    return panelRequest(server, 'backup create', (panel, target) => panel.backups.create(target, name), 1)
+  }
+
+  async function restoreBackup(server: ServerConfig, id: string) {
+    return panelRequest(server, 'backup restore', (panel, target) => panel.backups.restore(target, id), 1)
+  }
+
+  function formatBytes(bytes: number) {
+    if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(2)}GB`
+    if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(2)}MB`
+    return `${(bytes / 1024).toFixed(2)}KB`
+  }
+
+  function formatBackupStatus(backup: PanelBackup) {
+    if (!backup.completedAt) return '⏳ 进行中'
+    return backup.successful ? '✅ 完成' : '❌ 失败'
+  }
+
+  type PowerAction = 'start' | 'restart' | 'force-restart'
+
+  const POWER_STATES: Record<string, string> = {
+    offline: '已停止',
+    starting: '启动中',
+    running: '运行中',
+    stopping: '停止中',
+  }
+
+  // 正在执行电源操作的服务器，避免同一台服务器上的操作相互覆盖
+  const runningPowerActions = new Set<number>()
+
+  function formatPowerState(state: string) {
+    return POWER_STATES[state] || state || '未知'
+  }
+
+  async function fetchPanelResources(server: ServerConfig) {
+    return panelRequest(server, 'resources', (panel, target) => panel.getResources(target), 1)
+  }
+
+  function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms))
+  }
+
+  // 轮询面板状态直到满足条件，轮询期间的接口错误视为暂时性错误
+  async function waitForPanel(server: ServerConfig, predicate: (resources: PanelResources) => boolean, deadline: number) {
+    while (Date.now() < deadline) {
+      try {
+        const resources = await fetchPanelResources(server)
+        if (predicate(resources)) return resources
+      } catch (error) {
+        ctx.logger.debug(`轮询实例 ${server.instanceId} 状态失败:`, error)
+      }
+      await sleep(config.powerPollInterval * 1000)
+    }
+    return null
+  }
+
+  async function waitForJoinable(server: ServerConfig, deadline: number) {
+    while (Date.now() < deadline) {
+      const result = await queryServerStatus(server, true)
+      if (result.success && result.data?.online) return result
+      await sleep(config.powerPollInterval * 1000)
+    }
+    return null
+  }
+
+  async function executePowerAction(server: ServerConfig, action: PowerAction, actor: AuditActor, report: (message: string) => Promise<unknown>) {
+    const name = getServerName(server)
+    const deadline = Date.now() + config.powerActionTimeout * 1000
+    const timeoutText = `${config.powerActionTimeout}秒`
+    const isOffline = (resources: PanelResources) => resources.state === 'offline'
+
+    const initial = await fetchPanelResources(server)
+    const state = initial.state
+
+    if (action === 'start') {
+      if (state === 'running') {
+        return `✅ ${name} 已在运行中，无需启动`
+      }
+      if (state === 'starting') {
+        await report(`⏳ ${name} 正在启动中，等待启动完成…`)
+      } else {
+        if (state === 'stopping') {
+          await report(`⏳ ${name} 正在停止中，等待停止完成后再启动…`)
+          if (!await waitForPanel(server, isOffline, deadline)) {
+            return `❌ ${name} 在${timeoutText}内未能停止，已取消启动`
+          }
+        }
+        await sendPowerSignal(server, 'start', actor)
+        await report(`⏳ 已发送启动指令到 ${name}，等待服务器启动…`)
+      }
+    } else if (action === 'restart') {
+      if (state === 'stopping') {
+        await report(`⏳ ${name} 正在停止中，等待停止完成后再启动…`)
+        if (!await waitForPanel(server, isOffline, deadline)) {
+          return `❌ ${name} 在${timeoutText}内未能停止，已取消重启`
+        }
+        await sendPowerSignal(server, 'start', actor)
+      } else {
+        await sendPowerSignal(server, 'restart', actor)
+      }
+      await report(`⏳ 已发送重启指令到 ${name}，等待服务器重启…`)
+      if (state === 'running') {
+        // 先等待服务器离开运行状态（或运行时间重置），避免把重启前的状态误认为重启完成
+        const restarted = await waitForPanel(server, (resources) => {
+          return resources.state !== 'running' || resources.uptime < initial.uptime
+        }, deadline)
+        if (!restarted) {
+          return `❌ ${name} 在${timeoutText}内没有开始重启`
+        }
+      }
+    } else {
+      if (state !== 'offline') {
+        if (state !== 'stopping') {
+          await sendPowerSignal(server, 'stop', actor)
+        }
+        await report(`⏳ 正在停止 ${name}…`)
+        // 正常停止最多等待30秒，超时后强制结束进程
+        if (!await waitForPanel(server, isOffline, Math.min(deadline, Date.now() + 30000))) {
+          await sendPowerSignal(server, 'kill', actor)
+          await report(`⚠️ ${name} 未能正常停止，已强制结束进程`)
+          if (!await waitForPanel(server, isOffline, deadline)) {
+            return `❌ ${name} 在${timeoutText}内未能停止，已取消启动`
+          }
+        }
+      }
+      await sendPowerSignal(server, 'start', actor)
+      await report(`⏳ 已发送启动指令到 ${name}，等待服务器启动…`)
+    }
+
+    const running = await waitForPanel(server, resources => resources.state === 'running', deadline)
+    if (!running) {
+      const current = await fetchPanelResources(server).catch(() => null)
+      return `❌ ${name} 在${timeoutText}内未能进入运行状态，当前状态: ${formatPowerState(current?.state)}`
+    }
+    await report(`🟢 ${name} 已进入运行状态，等待服务器可以加入…`)
+
+    const joinable = await waitForJoinable(server, deadline)
+    if (!joinable) {
+      return `❌ ${name} 已运行，但在${timeoutText}内未能响应状态查询，请检查服务器日志`
+    }
+    return `✅ ${name} 已可以加入！\n${formatShortStatus(joinable.data, server)}`
+  }
+
+  async function runPowerCommand(session: Session, server: ServerConfig, action: PowerAction, actionName: string) {
+    if (runningPowerActions.has(server.id)) {
+      return `⏳ ${getServerName(server)} 正在执行其他电源操作，请等待完成后再试`
+    }
+
+    const cooldownError = checkCooldown(session, 'power')
+    if (cooldownError) {
+      return cooldownError
+    }
+
+    runningPowerActions.add(server.id)
+    try {
+      const actor = { userId: session.userId, detail: `${actionName}指令` }
+      return await executePowerAction(server, action, actor, message => session.send(message))
+    } catch (error) {
+      return `❌ ${actionName}服务器失败: ${error.message}`
+    } finally {
+      runningPowerActions.delete(server.id)
+    }
+  }
+
+  function normalizeConsoleCommand(command: string) {
+    return command.trim().replace(/^\/+/, '').replace(/\s+/g, ' ').toLowerCase().replace(/^minecraft:/, '')
+  }
+
+  // execute ... run <指令> 会执行 run 之后的指令，需要和外层指令一起检查
+  function splitConsoleCommand(command: string) {
+    const commands = [normalizeConsoleCommand(command)]
+    let current = commands[0]
+    while (current.startsWith('execute ')) {
+      const index = current.indexOf(' run ')
+      if (index === -1) break
+      current = normalizeConsoleCommand(current.slice(index + ' run '.length))
+      commands.push(current)
+    }
+    return commands
+  }
+
+  function checkConsoleCommand(command: string): string | null {
+    const commands = splitConsoleCommand(command)
+    const matches = (normalized: string) => (prefix: string) => {
+      const entry = normalizeConsoleCommand(prefix)
+      return entry && (normalized === entry || normalized.startsWith(entry + ' '))
+    }
+
+    if (commands.some(normalized => config.consoleCommandDenylist.some(matches(normalized)))) {
+      return '❌ 该指令已被禁止执行'
+    }
+    if (config.consoleCommandAllowlist.length > 0 && !commands.every(normalized => config.consoleCommandAllowlist.some(matches(normalized)))) {
+      return '❌ 该指令不在允许执行的列表中'
+    }
+    return null
+  }
+
+  interface ProbeOptions {
+    timeout: number
+    // 需要在连接时检查地址的查询才会传入
+    lookup?: HostLookup
+  }
+
+  // 直接查询的地址始终在连接时检查，已绑定的服务器在开启 guardBoundServers 时检查；临时服务器的 ID 为 0
+  function getProbeLookup(server: ServerConfig): HostLookup | undefined {
+    if (server.id && !config.guardBoundServers) return
+    return addressGuard.lookupAddress
+  }
+
+  async function getLegacyStatus(host: string, port: number, options: ProbeOptions) {
+    const startTime = Date.now()
+    const status = await getLegacyServerStatus(host, port, options)
+    return { ...status, latency: Date.now() - startTime, protocol: 'legacy' }
+  }
+
+  // 只有连接成功但没有返回有效状态时才回退到旧版协议，连接失败时旧版协议同样无法连接
+  async function getJavaStatusWithFallback(host: string, port: number, options: ProbeOptions) {
+    try {
+      // Java 版的延迟为 Ping/Pong 往返时间
+      const status = await getJavaServerStatus(host, port, options)
+      return { ...status, protocol: 'modern' }
+    } catch (error) {
+      if (!(error instanceof JavaPingError) || !['handshake', 'status'].includes(error.step)) throw error
+      try {
+        return await getLegacyStatus(host, port, options)
+      } catch {
+        throw error
+      }
+    }
+  }
+
+  async function queryJavaServer(server: ServerConfig, host: string, port: number, options: ProbeOptions) {
+    if (server.protocol === 'legacy') {
+      return getLegacyStatus(host, port, options)
+    }
+    if (server.protocol !== 'query') {
+      return getJavaStatusWithFallback(host, port, options)
+    }
+
+    // Query 使用 UDP，与状态查询同时进行，用完整玩家列表替换状态响应中被截断的 sample
+    const [status, query] = await Promise.allSettled([
+      getJavaStatusWithFallback(host, port, options),
+      getQueryServerStatus(host, port, options),
+    ])
+    if (query.status === 'rejected') {
+      if (status.status === 'rejected') throw status.reason
+      ctx.logger.debug(`服务器 ${server.id} Query 查询失败:`, query.reason)
+      return status.value
+    }
+
+    const full = query.value
+    const base = status.status === 'fulfilled' ? status.value : { description: full.description, version: full.version }
+    return {
+      ...base,
+      online: true,
+      players: {
+        online: full.players.online,
+        max: full.players.max,
+        sample: full.players.list.map(name => ({ name, id: '' })),
+      },
+      software: full.software,
+      plugins: full.plugins,
+      levelName: full.map,
+      protocol: 'query',
+    }
+  }
+
+  async function probeServer(server: ServerConfig) {
+    try {
+      const target = await resolveServerTarget(server)
+      const { host, port } = target
+      const options: ProbeOptions = { timeout: (server.timeout || 5.0) * 1000, lookup: getProbeLookup(server) }
+      if (options.lookup) {
+        const portError = addressGuard.checkPort(port)
+        if (portError) throw new Error(portError)
+      }
+      const startTime = Date.now()
+
+      let result
+      if (server.serverType === 'bedrock') {
+        const status = await getBedrockServerStatus(host, port, options)
+        result = { ...status, latency: Date.now() - startTime }
+      } else {
+        result = await queryJavaServer(server, host, port, options)
+      }
+
+      return {
+        success: true,
+        data: result,
+        latency: result.latency as number | undefined,
+        target,
+      }
+    } catch (error) {
+      let errorMessage = error instanceof Error ? error.message : String(error)
+
+      errorMessage = errorMessage.replace(/connect ECONNREFUSED/i, '服务器已关闭')
+      errorMessage = errorMessage.replace(/connect ETIMEDOUT/i, '网络波动，请稍后尝试')
+      errorMessage = errorMessage.replace(/connect ENOTFOUND/i, '网络波动，请稍后尝试')
+      errorMessage = errorMessage.replace(/getaddrinfo EAI_AGAIN/i, '网络波动，请稍后尝试')
+
+      errorMessage = errorMessage.replace(/\s+(\d+\.\d+\.\d+\.\d+):\d+/, '')
+      errorMessage = errorMessage.replace(/\s+\[?[0-9a-f]*:[0-9a-f:]*\]?:\d+/i, '')
+      errorMessage = errorMessage.replace(/\s+[\w.-]+$/, '')
+      errorMessage = errorMessage.replace(/\s+[a-zA-Z0-9][a-zA-Z0-9.-]*:[0-9]+/, '')
+
+      return {
+        success: false,
+        error: errorMessage,
+      }
+    }
+  }
+
+  const statusCache = createRequestCache<Awaited<ReturnType<typeof probeServer>>>(config.statusCacheTtl * 1000)
+  const limitQuery = createLimiter(config.queryConcurrency)
+
+  // 地址、类型和协议相同的服务器共用缓存，多个群绑定同一台服务器时只会查询一次
+  async function queryServerStatus(server: ServerConfig, fresh = false) {
+    // 是否在连接时检查地址、是否查询 SRV 记录都会影响查询结果，不同的查询不共用缓存
+    const key = [
+      server.serverType,
+      server.protocol || 'auto',
+      getProbeLookup(server) ? 'guarded' : 'trusted',
+      server.explicitPort ? 'port' : 'srv',
+      formatAddress(server).toLowerCase(),
+    ].join(':')
+    const result = await statusCache(key, () => limitQuery(() => probeServer(server)), fresh)
+    return { ...result, server }
+  }
+
+  function createTemporaryServer(session: Session, address: ParsedAddress, serverType: ServerType): ServerConfig {
+    return {
+      id: 0,
+      userId: session.userId,
+      groupId: session.guildId || '',
+      name: address.host,
+      host: address.host,
+      port: address.port,
+      explicitPort: address.explicitPort,
+      serverType,
+      timeout: 5.0,
+      active: true,
+      displayId: 0,
+    }
+  }
+
+  function getServerName(server: ServerConfig) {
+    return server.name || 'Minecraft 服务器'
+  }
+
+  function formatDuration(seconds: number) {
+    seconds = Math.floor(seconds)
+    const days = Math.floor(seconds / 86400)
+    const hours = Math.floor((seconds % 86400) / 3600)
+    const minutes = Math.floor((seconds % 3600) / 60)
+    if (days > 0) return `${days}天 ${hours}小时 ${minutes}分钟`
+    if (hours > 0) return `${hours}小时 ${minutes}分钟`
+    if (minutes > 0) return `${minutes}分钟`
+    return `${seconds}秒`
+  }
+
+  async function sendToChannel(platform: string | undefined, channelId: string, message: string) {
+    const bot = ctx.bots.find(bot => !platform || bot.platform === platform)
+    if (!bot) {
+      ctx.logger.warn(`未找到可用的机器人，无法向频道 ${channelId} 推送消息`)
+      return
+    }
+    try {
+      await bot.sendMessage(channelId, message)
+    } catch (error) {
+      ctx.logger.warn(`向频道 ${channelId} 推送消息失败:`, error)
+    }
+  }
+
+  async function sendToServerGroup(server: ServerConfig, message: string) {
+    return sendToChannel(server.platform, server.channelId || server.groupId, message)
+  }
+
+  interface MonitorState {
+    online?: boolean
+    failCount: number
+    players?: Set<string>
+  }
+
+  const monitorStates = new Map<number, MonitorState>()
+  let monitorRunning = false
+
+  function getSamplePlayers(result: any): Set<string> | undefined {
+    const sample = result.players?.sample
+    if (!Array.isArray(sample)) return
+    // 人数超过样本数量时样本不完整，无法据此判断玩家进出
+    if (result.players.online > sample.length) return
+    return new Set<string>(sample.map(p => p.name))
+  }
+
+  async function recordStatusHistory(result: Awaited<ReturnType<typeof queryServerStatus>>) {
+    const online = result.success && !!result.data?.online
+    try {
+      await ctx.database.create('minecraft_status_history', {
+        serverId: result.server.id,
+        time: new Date(),
+        online,
+        players: online ? result.data.players?.online ?? 0 : 0,
+        latency: online ? result.latency : null,
+        version: online ? result.data.version?.name ?? '' : '',
+      })
+    } catch (error) {
+      ctx.logger.warn(`记录服务器 ${result.server.id} 状态历史失败:`, error)
+    }
+  }
+
+  async function pruneStatusHistory() {
+    const cutoff = new Date(Date.now() - config.historyRetentionDays * 86400 * 1000)
+    try {
+      await ctx.database.remove('minecraft_status_history', { time: { $lt: cutoff } })
+    } catch (error) {
+      ctx.logger.warn('清理服务器状态历史失败:', error)
+    }
+  }
+
+  // 关注者在本群和共享了这台服务器的群中都能收到通知，同一频道的关注者合并为一条消息
+  async function notifyPlayerWatchers(server: ServerConfig, joined: string[]) {
+    if (joined.length === 0) return
+    const joinedNames = new Map(joined.map(name => [normalizePlayerName(name), name]))
+    const shares = await ctx.database.get('minecraft_server_share', { serverId: server.id })
+    const watches = await ctx.database.get('minecraft_player_watch', {
+      groupId: [server.groupId, ...shares.map(share => share.groupId)],
+    })
+
+    const channels = new Map<string, { platform: string, channelId: string, players: Map<string, string[]> }>()
+    for (const watch of watches) {
+      const name = joinedNames.get(normalizePlayerName(watch.playerName))
+      if (!name || (server.platform && watch.platform !== server.platform)) continue
+      const key = `${watch.platform}:${watch.channelId}`
+      if (!channels.has(key)) {
+        channels.set(key, { platform: watch.platform, channelId: watch.channelId, players: new Map() })
+      }
+      const players = channels.get(key).players
+      players.set(name, [...players.get(name) || [], watch.userId])
+    }
+
+    for (const { platform, channelId, players } of channels.values()) {
+      const lines = [...players].map(([name, userIds]) => {
+        return `${userIds.map(userId => h.at(userId)).join('')} 你关注的 ${h.escape(name)} 进入了 ${h.escape(getServerName(server))}`
+      })
+      await sendToChannel(platform, channelId, lines.join('\n'))
+    }
+  }
+
+  async function checkMonitoredServer(server: ServerConfig) {
+    const state = monitorStates.get(server.id) || { failCount: 0 }
+    monitorStates.set(server.id, state)
+
+    // 监控需要最新状态，同时刷新缓存供查服指令使用
+    const result = await queryServerStatus(server, true)
+    // 推送的内容会被解析为消息元素，服务器名称、玩家名和错误信息都需要转义
+    const displayName = `${h.escape(getServerName(server))} (ID: ${server.displayId})`
+    const notify = config.enableMonitor && server.notify === true
+
+    if (config.enableHistory) {
+      await recordStatusHistory(result)
+    }
+
+    if (!result.success || !result.data?.online) {
+      state.failCount++
+      state.players = undefined
+      if (state.failCount < config.monitorOfflineThreshold || state.online === false) return
+      // 首次检查即离线时只记录状态，不推送
+      if (notify && state.online === true) {
+        const reason = result.success ? '' : ` | 原因：${h.escape(result.error)}`
+        await sendToServerGroup(server, `🔴 ${displayName} 已离线${reason}`)
+      }
+      state.online = false
+      return
+    }
+
+    const wasOnline = state.online
+    const previousPlayers = state.players
+    state.failCount = 0
+    state.online = true
+    state.players = getSamplePlayers(result.data)
+
+    if (config.enableMonitor && previousPlayers && state.players) {
+      await notifyPlayerWatchers(server, [...state.players].filter(name => !previousPlayers.has(name)))
+    }
+
+    if (!notify) return
+
+    if (wasOnline === false) {
+      await sendToServerGroup(server, `🟢 ${displayName} 已恢复在线`)
+      return
+    }
+
+    if (!config.monitorPlayerChanges || !previousPlayers || !state.players) return
+
+    const joined = [...state.players].filter(name => !previousPlayers.has(name))
+    const left = [...previousPlayers].filter(name => !state.players.has(name))
+    const lines = []
+    if (joined.length > 0) lines.push(`➡️ ${joined.map(name => h.escape(name)).join(', ')} 加入了 ${displayName}`)
+    if (left.length > 0) lines.push(`⬅️ ${left.map(name => h.escape(name)).join(', ')} 离开了 ${displayName}`)
+    if (lines.length > 0) {
+      await sendToServerGroup(server, lines.join('\n'))
+    }
+  }
+
+  async function runMonitor() {
+    if (monitorRunning) return
+    monitorRunning = true
+    try {
+      const servers = await ctx.database.get('minecraft_server', {})
+      // 兼容旧数据：null 也视为活跃
+      const activeServers = servers.filter(server => server.active !== false)
+      const activeIds = new Set(activeServers.map(server => server.id))
+      for (const id of monitorStates.keys()) {
+        if (!activeIds.has(id)) monitorStates.delete(id)
+      }
+      await Promise.all(activeServers.map(server => checkMonitoredServer(server)))
+    } catch (error) {
+      ctx.logger.warn('服务器状态监控失败:', error)
+    } finally {
+      monitorRunning = false
+    }
+  }
+
+  if (config.enableMonitor || config.enableHistory) {
+    ctx.setInterval(runMonitor, config.monitorInterval * 1000)
+  }
+
+  if (config.enableHistory) {
+    ctx.on('ready', pruneStatusHistory)
+    ctx.setInterval(pruneStatusHistory, 3600 * 1000)
+  }
+
+  type ResourceMetric = 'cpu' | 'memory' | 'disk'
+
+  interface ResourceLimits extends PanelLimits {
+    // 面板或实例变更后需要重新获取
+    key: string
+    fetchedAt: number
+  }
+
+  interface ResourceAlertState {
+    since?: number
+    alerted: boolean
+  }
+
+  interface ResourceMonitorState {
+    limits?: ResourceLimits
+    alerts: Record<ResourceMetric, ResourceAlertState>
+  }
+
+  const RESOURCE_METRICS: Record<ResourceMetric, { label: string, threshold: () => number, duration: () => number }> = {
+    cpu: { label: 'CPU', threshold: () => config.cpuAlertThreshold, duration: () => config.cpuAlertDuration },
+    memory: { label: '内存', threshold: () => config.memoryAlertThreshold, duration: () => config.memoryAlertDuration },
+    disk: { label: '磁盘', threshold: () => config.diskAlertThreshold, duration: () => 0 },
+  }
+
+  // 面板的资源上限很少变化，每小时重新获取一次
+  const RESOURCE_LIMITS_TTL = 3600 * 1000
+
+  const resourceStates = new Map<number, ResourceMonitorState>()
+  let resourceMonitorRunning = false
+
+  async function fetchResourceLimits(server: ServerConfig, state: ResourceMonitorState) {
+    const key = `${getPanelId(server)}:${server.instanceId}`
+    const cached = state.limits
+    if (cached && cached.key === key && Date.now() - cached.fetchedAt < RESOURCE_LIMITS_TTL) {
+      return cached
+    }
+    const limits = await panelRequest(server, 'limits', (panel, target) => panel.getLimits(target), 1)
+    state.limits = { ...limits, key, fetchedAt: Date.now() }
+    return state.limits
+  }
+
+  // 未限制 CPU 时按单核 100% 计算
+  function getResourceUsage(sample: Omit<ResourceHistory, 'id'>, metric: ResourceMetric) {
+    if (metric === 'cpu') return sample.cpu / (sample.cpuLimit || 100) * 100
+    if (metric === 'memory') return sample.memoryLimit ? sample.memory / sample.memoryLimit * 100 : null
+    return sample.diskLimit ? sample.disk / sample.diskLimit * 100 : null
+  }
+
+  function formatResourceUsage(sample: Omit<ResourceHistory, 'id'>, metric: ResourceMetric) {
+    const percent = `${getResourceUsage(sample, metric).toFixed(1)}%`
+    if (metric === 'memory') return `${percent}，${formatBytes(sample.memory)} / ${formatBytes(sample.memoryLimit)}`
+    if (metric === 'disk') return `${percent}，${formatBytes(sample.disk)} / ${formatBytes(sample.diskLimit)}`
+    return percent
+  }
+
+  async function checkResourceAlerts(server: ServerConfig, state: ResourceMonitorState, sample: Omit<ResourceHistory, 'id'>) {
+    const displayName = `${getServerName(server)} (ID: ${server.displayId})`
+    const now = sample.time.getTime()
+    for (const metric of Object.keys(RESOURCE_METRICS) as ResourceMetric[]) {
+      const { label, threshold, duration } = RESOURCE_METRICS[metric]
+      const alert = state.alerts[metric]
+      const usage = getResourceUsage(sample, metric)
+      // 面板未限制内存或磁盘时无法计算使用率
+      if (!threshold() || usage === null) {
+        state.alerts[metric] = { alerted: false }
+        continue
+      }
+
+      if (usage < threshold()) {
+        if (alert.alerted) {
+          await sendToServerGroup(server, `✅ ${displayName} ${label}使用率已恢复正常（${formatResourceUsage(sample, metric)}）`)
+        }
+        state.alerts[metric] = { alerted: false }
+        continue
+      }
+
+      alert.since ??= now
+      if (alert.alerted || now - alert.since < duration() * 1000) continue
+      alert.alerted = true
+      const sustained = duration() > 0 ? `已持续 ${formatDuration((now - alert.since) / 1000)} ` : ''
+      await sendToServerGroup(server, `⚠️ ${displayName} ${label}使用率${sustained}超过 ${threshold()}%（${formatResourceUsage(sample, metric)}）`)
+    }
+  }
+
+  async function collectServerResources(server: ServerConfig) {
+    let state = resourceStates.get(server.id)
+    if (!state) {
+      state = { alerts: { cpu: { alerted: false }, memory: { alerted: false }, disk: { alerted: false } } }
+      resourceStates.set(server.id, state)
+    }
+
+    // 采集失败时跳过本次采样，保留告警状态
+    let sample: Omit<ResourceHistory, 'id'>
+    try {
+      const limits = await fetchResourceLimits(server, state)
+      const resources = await fetchPanelResources(server)
+      sample = {
+        serverId: server.id,
+        time: new Date(),
+        cpu: resources.cpu,
+        cpuLimit: limits.cpu,
+        memory: resources.memory,
+        memoryLimit: limits.memory,
+        disk: resources.disk,
+        diskLimit: limits.disk,
+        networkRx: resources.networkRx,
+        networkTx: resources.networkTx,
+      }
+    } catch (error) {
+      ctx.logger.debug(`采集服务器 ${server.id} 资源使用情况失败:`, error)
+      return
+    }
+
+    try {
+      await ctx.database.create('minecraft_resource_history', sample)
+    } catch (error) {
+      ctx.logger.warn(`记录服务器 ${server.id} 资源使用情况失败:`, error)
+    }
+    await checkResourceAlerts(server, state, sample)
+  }
+
+  async function runResourceMonitor() {
+    if (resourceMonitorRunning) return
+    resourceMonitorRunning = true
+    try {
+      const servers = await ctx.database.get('minecraft_server', {})
+      const monitoredServers = servers.filter(server => server.active !== false && server.instanceId && panels.has(getPanelId(server)))
+      const monitoredIds = new Set(monitoredServers.map(server => server.id))
+      for (const id of resourceStates.keys()) {
+        if (!monitoredIds.has(id)) resourceStates.delete(id)
+      }
+      await Promise.all(monitoredServers.map(server => collectServerResources(server)))
+    } catch (error) {
+      ctx.logger.warn('服务器资源采集失败:', error)
+    } finally {
+      resourceMonitorRunning = false
+    }
+  }
+
+  async function pruneResourceHistory() {
+    const cutoff = new Date(Date.now() - config.resourceRetentionDays * 86400 * 1000)
+    try {
+      await ctx.database.remove('minecraft_resource_history', { time: { $lt: cutoff } })
+    } catch (error) {
+      ctx.logger.warn('清理服务器资源记录失败:', error)
+    }
+  }
+
+  if (config.enableResourceMonitor) {
+    ctx.setInterval(runResourceMonitor, config.resourceInterval * 1000)
+    ctx.on('ready', pruneResourceHistory)
+    ctx.setInterval(pruneResourceHistory, 3600 * 1000)
+  }
+
+  const RESOURCE_TREND_RANGES: Record<string, number> = {
+    '1h': 3600,
+    '24h': 86400,
+  }
+
+  const RESOURCE_CHART_POINTS = 240
+  const SPARKLINE_POINTS = 24
+  const SPARKLINE_CHARS = '▁▂▃▄▅▆▇█'
+
+  // 按时间等分后取每段的平均值，避免 24 小时的采样点挤在一张图里
+  function bucketResourceHistory(samples: ResourceHistory[], start: number, end: number, count: number, pick: (sample: ResourceHistory) => number) {
+    const size = (end - start) / count
+    const buckets: { sum: number, count: number }[] = Array.from({ length: count }, () => ({ sum: 0, count: 0 }))
+    for (const sample of samples) {
+      const index = Math.min(count - 1, Math.max(0, Math.floor((sample.time.getTime() - start) / size)))
+      buckets[index].sum += pick(sample)
+      buckets[index].count++
+    }
+    return buckets.flatMap((bucket, index) => bucket.count > 0
+      ? [{ time: start + (index + 0.5) * size, value: bucket.sum / bucket.count }]
+      : [])
+  }
+
+  function summarizeResourceHistory(values: number[]) {
+    return {
+      min: Math.min(...values),
+      average: values.reduce((sum, value) => sum + value, 0) / values.length,
+      max: Math.max(...values),
+    }
+  }
+
+  function renderSparkline(points: { value: number }[], top: number) {
+    return points.map(({ value }) => {
+      const level = Math.round(value / (top || 1) * (SPARKLINE_CHARS.length - 1))
+      return SPARKLINE_CHARS[Math.min(SPARKLINE_CHARS.length - 1, Math.max(0, level))]
+    }).join('')
+  }
+
+  async function replyResourceTrend(server: ServerConfig, range: string) {
+    if (!config.enableResourceMonitor) {
+      return '❌ 未启用资源采集，请联系机器人管理员开启'
+    }
+
+    const rangeSeconds = RESOURCE_TREND_RANGES[range]
+    if (!rangeSeconds) {
+      return `请使用正确的趋势范围：${Object.keys(RESOURCE_TREND_RANGES).join('、')}`
+    }
+
+    const end = Date.now()
+    const start = end - rangeSeconds * 1000
+    const samples = await ctx.database
+      .select('minecraft_resource_history')
+      .where({ serverId: server.id, time: { $gte: new Date(start) } })
+      .orderBy('time', 'asc')
+      .execute()
+
+    const name = getServerName(server)
+    if (samples.length === 0) {
+      return `📈 ${name} 在最近 ${range} 内暂无资源采集记录`
+    }
+
+    const latest = samples[samples.length - 1]
+    const formatPercent = (value: number) => `${value.toFixed(1)}%`
+    const series: (TrendSeries & { icon: string, pick: (sample: ResourceHistory) => number })[] = [
+      { icon: '🖥️', label: 'CPU', color: '#5865f2', max: latest.cpuLimit || undefined, format: formatPercent, pick: sample => sample.cpu, points: [] },
+      { icon: '💾', label: '内存', color: '#3ba55d', max: latest.memoryLimit || undefined, format: formatBytes, pick: sample => sample.memory, points: [] },
+      { icon: '💿', label: '磁盘', color: '#faa61a', max: latest.diskLimit || undefined, format: formatBytes, pick: sample => sample.disk, points: [] },
+    ]
+
+    let message = `📈 ${name} 最近 ${range} 资源趋势 (${samples.length}次采样)\n`
+    for (const item of series) {
+      const { min, average, max } = summarizeResourceHistory(samples.map(item.pick))
+      const limit = item.max ? ` (上限 ${item.format(item.max)})` : ''
+      message += `${item.icon} ${item.label}: 最低 ${item.format(min)} | 平均 ${item.format(average)} | 最高 ${item.format(max)}${limit}\n`
+    }
+    message += `📅 统计起点: ${samples[0].time.toLocaleString('zh-CN')}`
+
+    for (const item of series) {
+      item.points = bucketResourceHistory(samples, start, end, RESOURCE_CHART_POINTS, item.pick)
+    }
+    const footer = `查询时间: ${new Date(end).toLocaleString('zh-CN')}`
+    const image = await renderStatusImage(renderTrendCard(`${name} 最近 ${range} 资源趋势`, series, start, end, footer))
+    if (image) return message + '\n' + image
+
+    // 没有 puppeteer 时用字符画出简易走势
+    const lines = series.map((item) => {
+      const points = bucketResourceHistory(samples, start, end, SPARKLINE_POINTS, item.pick)
+      const top = item.max || Math.max(...points.map(point => point.value))
+      return `${item.label} ${renderSparkline(points, top)}`
+    })
+    return `${message}\n${lines.join('\n')}`
+  }
+
+  const SCHEDULE_ACTIONS: Record<ScheduleAction, string> = {
+    start: '开服',
+    restart: '重启',
+    stop: '关服',
+  }
+
+  const COUNTDOWN_POINTS = [300, 120, 60, 30, 10, 5, 4, 3, 2, 1]
+
+  function parseScheduleAction(text: string): ScheduleAction | undefined {
+    const normalized = text?.toLowerCase()
+    if (normalized in SCHEDULE_ACTIONS) return normalized as ScheduleAction
+    return (Object.keys(SCHEDULE_ACTIONS) as ScheduleAction[]).find(action => SCHEDULE_ACTIONS[action] === text)
+  }
+
+  async function getServerSchedules(server: ServerConfig) {
+    const schedules = await ctx.database.get('minecraft_schedule', { serverId: server.id })
+    return schedules.sort((a, b) => a.id - b.id)
+  }
+
+  // 通过控制台 say 指令在游戏内倒计时，控制台不可用时不影响后续操作
+  async function runCountdown(server: ServerConfig, seconds: number, actionName: string) {
+    const endTime = Date.now() + seconds * 1000
+    const points = [seconds, ...COUNTDOWN_POINTS.filter(point => point < seconds)]
+    for (const point of points) {
+      await sleep(Math.max(0, endTime - point * 1000 - Date.now()))
+      try {
+        await sendConsoleCommand(server, `say 服务器将在 ${formatDuration(point)} 后${actionName}`)
+      } catch (error) {
+        ctx.logger.warn(`向服务器 ${server.id} 发送倒计时失败:`, error)
+      }
+    }
+    await sleep(Math.max(0, endTime - Date.now()))
+  }
+
+  async function runSchedule(schedule: PowerSchedule) {
+    const [server] = await ctx.database.get('minecraft_server', { id: schedule.serverId })
+    if (!server) return
+
+    const name = getServerName(server)
+    const actionName = SCHEDULE_ACTIONS[schedule.action]
+    const panelError = checkPanelServer(server)
+    if (panelError) {
+      await sendToServerGroup(server, `❌ 定时任务：${panelError.replace(/^❌\s*/, '')}，无法${actionName}`)
+      return
+    }
+    if (runningPowerActions.has(server.id)) {
+      await sendToServerGroup(server, `⏳ 定时任务：${name} 正在执行其他电源操作，已跳过本次${actionName}`)
+      return
+    }
+
+    runningPowerActions.add(server.id)
+    try {
+      if (schedule.action !== 'start') {
+        const delay = schedule.countdown ? `${formatDuration(schedule.countdown)}后` : '即将'
+        await sendToServerGroup(server, `⚠️ 定时任务：${name} ${delay}${actionName}，请玩家做好准备`)
+        if (schedule.countdown) {
+          await runCountdown(server, schedule.countdown, actionName)
+        }
+      }
+      await sendPowerSignal(server, schedule.action, { userId: schedule.userId, detail: `定时任务 ${schedule.cron}` })
+      await sendToServerGroup(server, `✅ 定时任务：已发送${actionName}指令到 ${name}`)
+    } catch (error) {
+      await sendToServerGroup(server, `❌ 定时任务：${name} ${actionName}失败: ${error.message}`)
+    } finally {
+      runningPowerActions.delete(server.id)
+    }
+  }
+
+  // 数据库响应较慢时上一轮检查可能还没结束，重复检查会读到旧的 lastRunAt 而重复触发
+  let schedulesRunning = false
+
+  async function runSchedules() {
+    if (schedulesRunning) return
+    schedulesRunning = true
+    try {
+      const minute = new Date()
+      minute.setSeconds(0, 0)
+
+      const schedules = await ctx.database.get('minecraft_schedule', {})
+      for (const schedule of schedules) {
+        if (schedule.lastRunAt && schedule.lastRunAt.getTime() >= minute.getTime()) continue
+        try {
+          if (!matchesCron(parseCron(schedule.cron), minute)) continue
+        } catch (error) {
+          ctx.logger.warn(`定时任务 ${schedule.id} 的cron表达式无效:`, error)
+          continue
+        }
+
+        // 先记录触发时间再执行，插件重载或重启后同一时间点不会再次触发
+        await ctx.database.set('minecraft_schedule', { id: schedule.id }, { lastRunAt: minute })
+        runSchedule(schedule).catch((error) => {
+          ctx.logger.warn(`执行定时任务 ${schedule.id} 失败:`, error)
+        })
+      }
+    } finally {
+      schedulesRunning = false
+    }
+  }
+
+  // 检查间隔小于一分钟，保证每个时间点都能被检查到
+  ctx.setInterval(() => {
+    runSchedules().catch((error) => {
+      ctx.logger.warn('检查定时任务失败:', error)
+    })
+  }, 15 * 1000)
+
+  const STATISTICS_RANGES: Record<string, number> = {
+    '24h': 86400,
+    '7d': 7 * 86400,
+    '30d': 30 * 86400,
+  }
+
+  function summarizeStatusHistory(samples: StatusHistory[], rangeEnd: number) {
+    const onlineSamples = samples.filter(sample => sample.online)
+    const uptime = onlineSamples.length / samples.length * 100
+    const averagePlayers = onlineSamples.length > 0
+      ? onlineSamples.reduce((sum, sample) => sum + sample.players, 0) / onlineSamples.length
+      : 0
+    const peakSample = onlineSamples.reduce<StatusHistory>((peak, sample) => {
+      return !peak || sample.players > peak.players ? sample : peak
+    }, null)
+
+    // 一次离线从第一条离线记录开始，到下一条在线记录（或统计结束）为止
+    let longestOutage: { start: Date, duration: number } = null
+    let outageStart: Date = null
+    for (const sample of samples) {
+      if (!sample.online) {
+        outageStart ??= sample.time
+        continue
+      }
+      if (outageStart) {
+        const duration = sample.time.getTime() - outageStart.getTime()
+        if (!longestOutage || duration > longestOutage.duration) {
+          longestOutage = { start: outageStart, duration }
+        }
+        outageStart = null
+      }
+    }
+    if (outageStart) {
+      const duration = rangeEnd - outageStart.getTime()
+      if (!longestOutage || duration > longestOutage.duration) {
+        longestOutage = { start: outageStart, duration }
+      }
+    }
+
+    return { uptime, averagePlayers, peakSample, longestOutage }
+  }
+
+  const PERMISSION_ACTIONS: Record<PermissionAction, string> = {
+    query: '查询',
+    manage: '管理',
+    power: '电源',
+    resources: '资源',
+    console: '控制台',
+  }
+
+  function parsePermissionAction(text: string): PermissionAction | '*' | null {
+    if (!text) return null
+    if (text === '*' || text === '全部' || text.toLowerCase() === 'all') return '*'
+    const normalized = text.toLowerCase()
+    if (normalized in PERMISSION_ACTIONS) return normalized as PermissionAction
+    return (Object.keys(PERMISSION_ACTIONS) as PermissionAction[]).find(action => PERMISSION_ACTIONS[action] === text) || null
+  }
+
+  function formatPermissionAction(action: string) {
+    return action === '*' ? '全部' : PERMISSION_ACTIONS[action] || action
+  }
+
+  // 不同平台的角色可能是字符串或 { id, name } 对象
+  function getMemberRoles(session: Session): string[] {
+    const roles: any[] = session.event?.member?.roles || []
+    return roles.flatMap(role => typeof role === 'string' ? [role] : [role?.id, role?.name]).filter(Boolean)
+  }
+
+  async function isGroupAdmin(session: Session) {
+    const roles = getMemberRoles(session)
+    if (roles.includes('admin') || roles.includes('owner')) {
+      return true
+    }
+    // 没有群角色信息的平台使用 Koishi 权限等级
+    const user = await ctx.database.getUser(session.platform, session.userId, ['authority'])
+    return (user?.authority ?? 0) >= config.adminAuthority
+  }
+
+  async function hasPermission(session: Session, action: PermissionAction, server?: ServerConfig) {
+    if (!config.enablePermissionCheck) return true
+    if (action === 'query' && config.allowMemberQueryCommands) return true
+    if (action === 'power' && config.allowMemberPowerCommands) return true
+    if (await isGroupAdmin(session)) return true
+
+    const grants = await ctx.database.get('minecraft_permission', {
+      groupId: session.guildId,
+      serverId: server ? [0, server.id] : [0],
+      action: [action, '*'],
+    })
+    const roles = getMemberRoles(session)
+    return grants.some((grant) => {
+      return grant.subjectType === 'user' ? grant.subjectId === session.userId : roles.includes(grant.subjectId)
+    })
+  }
+
+  async function checkPermission(session: Session, action: PermissionAction, server?: ServerConfig): Promise<string | null> {
+    if (await hasPermission(session, action, server)) {
+      return null
+    }
+    const scope = server ? ` ${getServerName(server)} 的` : ''
+    return `❌ 你没有${scope}${PERMISSION_ACTIONS[action]}权限，请联系管理员使用 权限 指令授权`
+  }
+
+  const COOLDOWN_SETTINGS = {
+    query: { label: '查询', user: config.queryUserCooldown, group: config.queryGroupCooldown },
+    power: { label: '电源操作', user: config.powerUserCooldown, group: config.powerGroupCooldown },
+  }
+  const cooldowns = { query: createCooldown(), power: createCooldown() }
+
+  // 成员和群的冷却都已结束时才放行，并同时开始新的冷却
+  function checkCooldown(session: Session, kind: keyof typeof COOLDOWN_SETTINGS): string | null {
+    const settings = COOLDOWN_SETTINGS[kind]
+    const cooldown = cooldowns[kind]
+    const userKey = `user:${session.platform}:${session.userId}`
+    const groupKey = `group:${session.platform}:${session.guildId}`
+
+    const userRemaining = cooldown.remaining(userKey)
+    if (userRemaining) {
+      return `⏳ ${settings.label}过于频繁，请 ${userRemaining} 秒后再试`
+    }
+    const groupRemaining = cooldown.remaining(groupKey)
+    if (groupRemaining) {
+      return `⏳ 本群${settings.label}过于频繁，请 ${groupRemaining} 秒后再试`
+    }
+
+    cooldown.start(userKey, settings.user)
+    cooldown.start(groupKey, settings.group)
+    return null
+  }
+
+  // 状态中的名称、版本等字段由服务器返回，拼入消息前需要转义
+  function formatShortStatus(result: any, server: ServerConfig) {
+    const displayName = h.escape(getServerName(server))
+    if (!result.online) {
+      return `🔴 ${displayName} - 离线`
+    }
+
+    const players = result.players ? `${result.players.online}/${result.players.max}` : 'N/A'
+    const version = result.version ? h.escape(String(result.version.name)) : 'N/A'
+    const latency = result.latency !== undefined ? ` | 延迟: ${result.latency}ms` : ''
+
+    return `🟢 ${displayName} - 在线 | 玩家: ${players} | 版本: ${version}${latency}`
+  }
+
+  function buildStatusCard(result: Awaited<ReturnType<typeof queryServerStatus>>, showIp: boolean): StatusCard {
+    const server = result.server
+    const data = result.success ? result.data : null
+    const card: StatusCard = {
+      id: server.displayId || undefined,
+      name: getServerName(server),
+      online: !!data?.online,
+      serverType: server.serverType || 'java',
+      error: result.error,
+    }
+
+    if (showIp) {
+      card.address = formatResolvedAddress(server, result.target)
+    }
+
+    if (!card.online) return card
+
+    card.version = data.version?.name
+    card.motd = data.description ? parseMotd(data.description) : undefined
+    card.favicon = data.favicon
+    card.latency = result.latency
+    card.gamemode = data.gamemode
+    card.levelName = data.levelName
+    if (data.players) {
+      card.players = {
+        online: data.players.online,
+        max: data.players.max,
+        names: (data.players.sample || []).map(p => p.name),
+      }
+    }
+    return card
+  }
+
+  async function renderStatusImage(html: string) {
+    if (!ctx.puppeteer) return null
+    try {
+      return await ctx.puppeteer.render(html, async (page, next) => next(await page.$('.container')))
+    } catch (error) {
+      ctx.logger.warn('渲染服务器状态卡片失败:', error)
+      return null
+    }
+  }
+
+  const DIAGNOSTIC_STEPS: Record<JavaCheckStep, string> = {
+    dns: 'DNS解析',
+    connect: 'TCP连接',
+    handshake: '握手',
+    status: '状态响应',
+    ping: 'Ping',
+  }
+
+  const DIAGNOSTIC_HINTS: Record<JavaCheckStep, string> = {
+    dns: '请检查域名是否正确，以及DNS记录是否已生效',
+    connect: '域名解析正常但无法建立连接，请检查服务器是否运行、端口是否正确，以及防火墙是否放行该端口',
+    handshake: '连接建立后无法发送数据，请检查服务器或网络是否稳定',
+    status: '已建立连接但没有收到状态响应，请检查端口是否指向 Minecraft 服务器，或服务器是否卡顿',
+    ping: '服务器运行正常，但没有响应 Ping，延迟按状态响应耗时计算',
+  }
+
+  function formatDiagnosticStep(result: JavaStepResult) {
+    const name = DIAGNOSTIC_STEPS[result.step]
+    if (!result.success) return `⚠️ ${name}: ${result.detail}`
+    const detail = result.detail ? ` (${result.detail})` : ''
+    return `✅ ${name}: ${result.duration}ms${detail}`
+  }
+
+  async function diagnoseServer(server: ServerConfig) {
+    const address = getServerAddress(server)
+    const timeout = (server.timeout || 5.0) * 1000
+    const lookup = getProbeLookup(server)
+    const lines = [`🩺 ${getServerName(server)} 网络诊断`, `📡 地址: ${formatAddress(address)}`]
+
+    // 已绑定的服务器被地址查询限制拒绝时直接给出原因，不再逐步检查
+    if (lookup && server.id) {
+      const target = await resolveServerTarget(server)
+      const reason = await addressGuard.checkAddress([...new Set([server.host, target.host])], target.port)
+      if (reason) {
+        lines.push(`🔴 结论: ${reason}，如需查询内网服务器请关闭 guardBoundServers 配置`)
+        return lines.join('\n')
+      }
+    }
+
+    if (server.serverType === 'bedrock') {
+      const startTime = Date.now()
+      try {
+        const status = await getBedrockServerStatus(address.host, address.port, { timeout, lookup })
+        lines.push(`✅ RakNet Ping: ${Date.now() - startTime}ms (${status.version.name})`)
+        lines.push('🟢 结论: 服务器运行正常')
+      } catch (error) {
+        lines.push(`❌ RakNet Ping: ${error.message}`)
+        lines.push('🔴 结论: 服务器没有响应，请检查服务器是否运行、端口是否正确，以及防火墙是否放行 UDP 端口')
+      }
+      return lines.join('\n')
+    }
+
+    const target = await resolveServerTarget(server)
+    const srvChecked = address.port === DEFAULT_PORTS.java && !server.explicitPort
+    if (srvChecked && formatAddress(target) !== formatAddress(address)) {
+      lines.push(`✅ SRV记录: ${formatAddress(target)}`)
+    } else if (srvChecked) {
+      lines.push('➖ SRV记录: 未找到，使用原地址')
+    }
+
+    const steps: JavaStepResult[] = []
+    try {
+      await getJavaServerStatus(target.host, target.port, {
+        timeout,
+        lookup,
+        onStep: result => steps.push(result),
+      })
+      lines.push(...steps.map(formatDiagnosticStep))
+      const pingFailed = steps.find(step => step.step === 'ping' && !step.success)
+      lines.push(pingFailed ? `🟡 结论: ${DIAGNOSTIC_HINTS.ping}` : '🟢 结论: 服务器运行正常')
+    } catch (error) {
+      lines.push(...steps.map(formatDiagnosticStep))
+      if (error instanceof JavaPingError) {
+        lines.push(`❌ ${DIAGNOSTIC_STEPS[error.step]}: ${error.message}`)
+        lines.push(`🔴 结论: 在「${DIAGNOSTIC_STEPS[error.step]}」步骤失败，${DIAGNOSTIC_HINTS[error.step]}`)
+      } else {
+        lines.push(`🔴 结论: 诊断失败: ${error.message}`)
+      }
+    }
+    return lines.join('\n')
+  }
+
+  function parseStatusOutput(output: string): StatusOutput | null {
+    if (!output) return config.statusOutput
+    if (output === 'text' || output === '文本') return 'text'
+    if (output === 'image' || output === '图片') return 'image'
+    return null
+  }
+
+  async function replyDetailedStatus(result: Awaited<ReturnType<typeof queryServerStatus>>, output: StatusOutput) {
+    if (output === 'image' && result.data?.online) {
+      const footer = `查询时间: ${new Date().toLocaleString('zh-CN')}`
+      const image = await renderStatusImage(renderDetailedCard(buildStatusCard(result, config.showIpInDetail), footer))
+      if (image) return image
+    }
+    return formatDetailedStatus(result.data, result.server, config.showIpInDetail, result.target)
+  }
+
+  function formatResolvedAddress(server: ServerConfig, target?: ServerAddress) {
+    const address = formatAddress(getServerAddress(server))
+    const resolved = target && formatAddress(target)
+    return resolved && resolved !== address ? `${address} (SRV → ${resolved})` : address
+  }
+
+  // 除查询时间和数值外，所有字段都可能由服务器控制，需要转义
+  function formatDetailedStatus(result: any, server: ServerConfig, showIp: boolean, target?: ServerAddress) {
+    const displayName = h.escape(getServerName(server))
+    if (!result.online) {
+      return `🔴 ${displayName} 当前离线`
+    }
+
+    let motdText = '暂无描述'
+    if (result.description) {
+      const descriptionStr = toPlainText(parseMotd(result.description))
+      motdText = h.escape(descriptionStr.replace(/\n/g, ' ').replace(/\s+/g, ' ').trim()) || motdText
+    }
+
+    let message = `🟢 ${displayName} 状态信息\n`
+
+    if (showIp) {
+      message += `📡 地址: ${h.escape(formatResolvedAddress(server, target))}\n`
+    }
+
+    message += `🎮 类型: ${server.serverType || 'Java'}\n`
+
+    if (result.version) {
+      message += `📦 版本: ${h.escape(String(result.version.name))}\n`
+    }
+
+    if (result.gamemode) {
+      message += `🕹️ 模式: ${h.escape(result.gamemode)}\n`
+    }
+
+    if (result.levelName) {
+      message += `🗺️ 存档: ${h.escape(result.levelName)}\n`
+    }
+
+    if (result.software) {
+      message += `🧱 服务端: ${h.escape(result.software)}\n`
+    }
+
+    if (result.plugins?.length > 0) {
+      message += `🧩 插件(${result.plugins.length}): ${result.plugins.map(plugin => h.escape(plugin)).join(', ')}\n`
+    }
+
+    if (result.protocol === 'legacy' || result.protocol === 'query') {
+      message += `🔌 查询协议: ${PROTOCOL_NAMES[result.protocol]}\n`
+    }
+
+    if (result.latency !== undefined) {
+      message += `📶 延迟: ${result.latency}ms\n`
+    }
+
+    if (result.players) {
+      message += `👥 人数: ${result.players.online}/${result.players.max}\n`
+      if (result.players.sample && result.players.sample.length > 0) {
+        const allPlayers = result.players.sample.map(p => h.escape(String(p.name))).join(', ')
+        message += `👤 在线玩家: ${allPlayers}\n`
+      }
+    }
 
     message += `📋 MOTD: ${motdText}\n`
     message += `⏰ 查询时间: ${new Date().toLocaleString('zh-CN')}`
 
-    return message
+    return message
+  }
+
+  // 查询本群可见的活跃服务器中有查询权限的部分，失败时返回错误信息
+  async function queryGroupServers(session: Session) {
+    // 兼容旧数据：null 也视为活跃
+    const servers = (await getVisibleServers(session.guildId)).filter(server => server.active !== false)
+    if (servers.length === 0) {
+      return '❌ 本群未绑定任何服务器，请先使用 绑定服务器 指令'
+    }
+
+    const permitted = await Promise.all(servers.map(server => hasPermission(session, 'query', server)))
+    if (!permitted.some(Boolean)) {
+      return checkPermission(session, 'query')
+    }
+
+    const cooldownError = checkCooldown(session, 'query')
+    if (cooldownError) {
+      return cooldownError
+    }
+
+    return Promise.all(servers.filter((_, index) => permitted[index]).map(server => queryServerStatus(server)))
+  }
+
+  ctx.guild()
+    .command('mc/查服 [target:string]', '查询Minecraft服务器状态')
+    .option('type', '--type <type:string>')
+    .option('type', '-b', { value: 'bedrock' })
+    .option('output', '-t <output:string>')
+    .action(async ({ session, options }, target) => {
+      const output = parseStatusOutput(options.output)
+      if (!output) {
+        return '❌ 输出方式只能为 text 或 image'
+      }
+
+      if (target === undefined) {
+        const results = await queryGroupServers(session)
+        if (typeof results === 'string') {
+          return results
+        }
+
+        const onlineCount = results.filter(r => r.success && r.data && r.data.online).length
+
+        if (output === 'image') {
+          const title = `服务器状态汇总 (当前在线${onlineCount}/${results.length}台)`
+          const footer = `查询时间: ${new Date().toLocaleString('zh-CN')}`
+          const cards = results.map(result => buildStatusCard(result, false))
+          const image = await renderStatusImage(renderSummaryCard(title, cards, footer))
+          if (image) return image
+        }
+
+        let message = `📊 服务器状态汇总 (当前在线${onlineCount}/${results.length}台)\n\n`
+        results.forEach((result) => {
+          const serverId = result.server.displayId
+          if (result.success) {
+            const originalStatus = formatShortStatus(result.data, result.server)
+            message += `[ID:${serverId}] ${originalStatus}\n`
+          } else {
+            message += `[ID:${serverId}] 🔴 ${h.escape(getServerName(result.server))} - 离线 | 原因：${h.escape(result.error)}\n`
+          }
+        })
+
+        message += `\n💡 输入"查服+服务器ID"即可查询详细状态，例如：查服 ${results[0].server.displayId}`
+        if (config.allowAddressQuery) {
+          message += `\n💡 也可以直接输入IP地址查询`
+        }
+
+        return message
+      }
+
+      // 尝试作为数字ID处理，1.2.3.4、2b2t.org 等以数字开头的地址不视为ID
+      const id = parseInt(target)
+      if (!isNaN(id) && String(id) === target.trim()) {
+        const servers = await getVisibleServers(session.guildId)
+        const server = servers.find(s => s.displayId === id)
+        if (server) {
+          // 检查服务器是否活跃（兼容旧数据：null 也视为活跃）
+          if (server.active === false) {
+            return `❌ 服务器 ${server.name} (ID: ${id}) 处于不活跃状态，无法查询`
+          }
+          const permissionError = await checkPermission(session, 'query', server)
+          if (permissionError) {
+            return permissionError
+          }
+          const cooldownError = checkCooldown(session, 'query')
+          if (cooldownError) {
+            return cooldownError
+          }
+          const result = await queryServerStatus(server)
+          if (!result.success) {
+            return `🔴 ${h.escape(getServerName(server))} - 离线 | 原因：${h.escape(result.error)}`
+          }
+          return replyDetailedStatus(result, output)
+        }
+      }
+
+      // 作为IP地址处理
+      const permissionError = await checkPermission(session, 'query')
+      if (permissionError) {
+        return permissionError
+      }
+
+      const serverType = options.type ? parseServerType(options.type) : 'java'
+      if (!serverType) {
+        return '❌ 服务器类型只能为 java 或 bedrock'
+      }
+
+      let address: ParsedAddress
+      try {
+        address = parseServerAddress(String(target), getDefaultPort(serverType))
+      } catch (error) {
+        return `❌ ${error.message}`
+      }
+
+      const cooldownError = checkCooldown(session, 'query')
+      if (cooldownError) {
+        return cooldownError
+      }
+
+      const temporaryServer = createTemporaryServer(session, address, serverType)
+      const guardError = await guardAddress(session, temporaryServer)
+      if (guardError) {
+        return guardError
+      }
+
+      const result = await queryServerStatus(temporaryServer)
+      if (!result.success) {
+        return `🔴 服务器 - 离线 | 原因：${h.escape(result.error)}`
+      }
+
+      return replyDetailedStatus(result, output)
+    })
+
+  ctx.guild()
+    .command('mc/诊断 <target:string>', '诊断Minecraft服务器的网络连接')
+    .option('type', '--type <type:string>')
+    .option('type', '-b', { value: 'bedrock' })
+    .action(async ({ session, options }, target) => {
+      if (!target) return '请提供服务器ID或地址，例如：诊断 1'
+
+      const id = parseInt(target)
+      if (!isNaN(id) && String(id) === target.trim()) {
+        const servers = await getVisibleServers(session.guildId)
+        const server = servers.find(s => s.displayId === id)
+        if (server) {
+          return await checkPermission(session, 'query', server) || checkCooldown(session, 'query') || diagnoseServer(server)
+        }
+      }
+
+      const permissionError = await checkPermission(session, 'query')
+      if (permissionError) {
+        return permissionError
+      }
+
+      const serverType = options.type ? parseServerType(options.type) : 'java'
+      if (!serverType) {
+        return '❌ 服务器类型只能为 java 或 bedrock'
+      }
+
+      let address: ParsedAddress
+      try {
+        address = parseServerAddress(target, getDefaultPort(serverType))
+      } catch (error) {
+        return `❌ ${error.message}`
+      }
+
+      const cooldownError = checkCooldown(session, 'query')
+      if (cooldownError) {
+        return cooldownError
+      }
+
+      const temporaryServer = createTemporaryServer(session, address, serverType)
+      return await guardAddress(session, temporaryServer) || diagnoseServer(temporaryServer)
+    })
+
+  const MAX_PLAYER_NAME_LENGTH = 32
+  const MAX_PLAYER_WATCHES = 20
+
+  // 游戏名不区分大小写，并忽略样本中的格式代码
+  function normalizePlayerName(name: string) {
+    return name.replace(/§./g, '').trim().toLowerCase()
+  }
+
+  // 返回服务器公开的玩家名称，complete 表示名单是否包含全部在线玩家
+  function getOnlinePlayers(data: any) {
+    const sample = Array.isArray(data?.players?.sample) ? data.players.sample : []
+    const names: string[] = sample.map(p => String(p.name ?? '').replace(/§./g, '').trim()).filter(Boolean)
+    const online: number = data?.players?.online ?? names.length
+    return { names, online, complete: online <= names.length }
+  }
+
+  // 服务器名称和玩家名都来自外部，拼入消息前需要转义
+  function formatServerLabel(server: ServerConfig) {
+    return `[ID:${server.displayId}] ${h.escape(getServerName(server))}`
+  }
+
+  // 玩家参数可以是游戏名，也可以 @ 已绑定游戏名的成员
+  async function resolvePlayerName(session: Session, input: string) {
+    const [at] = h.select(h.parse(input || ''), 'at')
+    if (at) {
+      const [binding] = await ctx.database.get('minecraft_player', { platform: session.platform, userId: at.attrs.id })
+      if (!binding) {
+        throw new Error('该成员尚未使用 绑定玩家 指令绑定游戏名')
+      }
+      return binding.playerName
+    }
+
+    const name = h.unescape(input || '').trim()
+    if (!name) {
+      throw new Error('请提供玩家的游戏名')
+    }
+    if (name.length > MAX_PLAYER_NAME_LENGTH || /[\r\n\t<>]/.test(name)) {
+      throw new Error(`游戏名不能超过 ${MAX_PLAYER_NAME_LENGTH} 个字符，且不能包含换行或尖括号`)
+    }
+    return name
+  }
+
+  ctx.guild()
+    .command('mc/找人 <player:text>', '查找玩家正在哪台服务器上')
+    .usage('可以直接输入游戏名，也可以 @ 已绑定游戏名的成员')
+    .action(async ({ session }, player) => {
+      if (!player) return '请提供玩家的游戏名，例如：找人 Steve'
+
+      let name: string
+      try {
+        name = await resolvePlayerName(session, player)
+      } catch (error) {
+        return `❌ ${error.message}`
+      }
+
+      const results = await queryGroupServers(session)
+      if (typeof results === 'string') {
+        return results
+      }
+
+      const target = normalizePlayerName(name)
+      const found: ServerConfig[] = []
+      const unknown: string[] = []
+      results.forEach((result) => {
+        if (!result.success || !result.data?.online) return
+        const players = getOnlinePlayers(result.data)
+        if (players.names.some(item => normalizePlayerName(item) === target)) {
+          found.push(result.server)
+        } else if (!players.complete) {
+          unknown.push(formatServerLabel(result.server))
+        }
+      })
+
+      const lines = found.length > 0
+        ? [`🔍 ${h.escape(name)} 正在以下服务器中：`, ...found.map(server => `  ${formatServerLabel(server)}`)]
+        : [`🔍 未在本群的服务器中找到 ${h.escape(name)}`]
+      if (unknown.length > 0) {
+        lines.push(`⚠️ 以下服务器没有公开完整的玩家列表，无法确认：${unknown.join('、')}`)
+      }
+      return lines.join('\n')
+    })
+
+  ctx.guild()
+    .command('mc/在线', '查看本群所有服务器的在线玩家')
+    .action(async ({ session }) => {
+      const results = await queryGroupServers(session)
+      if (typeof results === 'string') {
+        return results
+      }
+
+      // 同一玩家可能同时出现在多台服务器上，按游戏名合并
+      const players = new Map<string, { name: string, servers: string[] }>()
+      const hidden: string[] = []
+      let onlineServers = 0
+      results.forEach((result) => {
+        if (!result.success || !result.data?.online) return
+        onlineServers++
+        const { names, online, complete } = getOnlinePlayers(result.data)
+        for (const name of names) {
+          const key = normalizePlayerName(name)
+          if (!players.has(key)) players.set(key, { name, servers: [] })
+          players.get(key).servers.push(formatServerLabel(result.server))
+        }
+        if (!complete) {
+          hidden.push(names.length > 0
+            ? `${formatServerLabel(result.server)} 在线 ${online} 人，只公开了 ${names.length} 名玩家`
+            : `${formatServerLabel(result.server)} 在线 ${online} 人，未公开玩家列表`)
+        }
+      })
+
+      const summary = `（${onlineServers}/${results.length} 台服务器在线）`
+      if (players.size === 0 && hidden.length === 0) {
+        return `😴 本群的服务器当前没有玩家在线${summary}`
+      }
+
+      const lines = [`👥 当前共有 ${players.size} 名玩家在线${summary}：`]
+      const sorted = [...players.values()].sort((a, b) => a.name.localeCompare(b.name))
+      lines.push(...sorted.map(player => `  ${h.escape(player.name)} - ${player.servers.join('、')}`))
+      if (hidden.length > 0) {
+        lines.push(...hidden.map(item => `⚠️ ${item}`))
+      }
+      return lines.join('\n')
+    })
+
+  ctx.guild()
+    .command('mc/绑定玩家 [player:text]', '绑定自己的游戏名')
+    .usage('不带参数时查看已绑定的游戏名，绑定后其他成员可以通过 @ 你来找人或关注')
+    .action(async ({ session }, player) => {
+      const query = { platform: session.platform, userId: session.userId }
+      const [binding] = await ctx.database.get('minecraft_player', query)
+
+      if (!player) {
+        return binding ? `🎮 你绑定的游戏名为 ${binding.playerName}` : '你还没有绑定游戏名，例如：绑定玩家 Steve'
+      }
+
+      // 只能绑定自己的游戏名，不能 @ 其他成员
+      if (h.select(h.parse(player), 'at').length > 0) {
+        return '❌ 请直接输入自己的游戏名'
+      }
+
+      let name: string
+      try {
+        name = await resolvePlayerName(session, player)
+      } catch (error) {
+        return `❌ ${error.message}`
+      }
+
+      if (binding) {
+        await ctx.database.set('minecraft_player', { id: binding.id }, { playerName: name, createdAt: new Date() })
+      } else {
+        await ctx.database.create('minecraft_player', { ...query, playerName: name, createdAt: new Date() })
+      }
+      return `✅ 已将你的游戏名绑定为 ${name}`
+    })
+
+  ctx.guild()
+    .command('mc/解绑玩家', '解除自己游戏名的绑定')
+    .action(async ({ session }) => {
+      const query = { platform: session.platform, userId: session.userId }
+      const [binding] = await ctx.database.get('minecraft_player', query)
+      if (!binding) return '你还没有绑定游戏名'
+
+      await ctx.database.remove('minecraft_player', query)
+      return `✅ 已解除游戏名 ${binding.playerName} 的绑定`
+    })
+
+  const WATCH_MONITOR_HINT = '\n⚠️ 后台监控未启用，暂时不会收到上线通知，请联系机器人管理员开启'
+
+  ctx.guild()
+    .command('mc/关注 [player:text]', '关注玩家，玩家进入本群的服务器时 @ 你')
+    .usage('不带参数时查看自己在本群关注的玩家，可以直接输入游戏名，也可以 @ 已绑定游戏名的成员')
+    .action(async ({ session }, player) => {
+      const permissionError = await checkPermission(session, 'query')
+      if (permissionError) {
+        return permissionError
+      }
+
+      const query = { platform: session.platform, groupId: session.guildId, userId: session.userId }
+      const watches = await ctx.database.get('minecraft_player_watch', query)
+      const monitorHint = config.enableMonitor ? '' : WATCH_MONITOR_HINT
+
+      if (!player) {
+        if (watches.length === 0) return '你在本群还没有关注任何玩家，例如：关注 Steve'
+        return `👀 你在本群关注了 ${watches.length} 名玩家：${watches.map(watch => watch.playerName).join('、')}${monitorHint}`
+      }
+
+      let name: string
+      try {
+        name = await resolvePlayerName(session, player)
+      } catch (error) {
+        return `❌ ${error.message}`
+      }
+
+      const existing = watches.find(watch => normalizePlayerName(watch.playerName) === normalizePlayerName(name))
+      if (existing) {
+        return `你已经关注了 ${existing.playerName}`
+      }
+      if (watches.length >= MAX_PLAYER_WATCHES) {
+        return `❌ 每人在每个群最多关注 ${MAX_PLAYER_WATCHES} 名玩家，请先使用 取消关注 指令`
+      }
+
+      await ctx.database.create('minecraft_player_watch', { ...query, channelId: session.channelId, playerName: name, createdAt: new Date() })
+      return `✅ 已关注 ${name}，该玩家进入本群的服务器时会 @ 你${monitorHint}`
+    })
+
+  ctx.guild()
+    .command('mc/取消关注 <player:text>', '取消关注玩家')
+    .action(async ({ session }, player) => {
+      if (!player) return '请提供要取消关注的游戏名，例如：取消关注 Steve'
+
+      let name: string
+      try {
+        name = await resolvePlayerName(session, player)
+      } catch (error) {
+        return `❌ ${error.message}`
+      }
+
+      const watches = await ctx.database.get('minecraft_player_watch', { platform: session.platform, groupId: session.guildId, userId: session.userId })
+      const existing = watches.find(watch => normalizePlayerName(watch.playerName) === normalizePlayerName(name))
+      if (!existing) {
+        return `❌ 你在本群没有关注 ${name}`
+      }
+
+      await ctx.database.remove('minecraft_player_watch', { id: existing.id })
+      return `✅ 已取消关注 ${existing.playerName}`
+    })
+
+  ctx.guild()
+    .command('mc/绑定服务器 <host:string>', '绑定Minecraft服务器')
+    .option('name', '-n <name:string>', { fallback: '' })
+    .option('timeout', '-t <timeout:number>', { fallback: 5 })
+    .option('panel', '--panel <panel:string>', { fallback: DEFAULT_PANEL })
+    .option('instance', '-i <instance:string>', { fallback: '' })
+    .option('type', '--type <type:string>', { fallback: 'java' })
+    .option('type', '-b', { value: 'bedrock' })
+    .option('key', '-k <key:string>', { fallback: '' })
+    .option('protocol', '-p <protocol:string>', { fallback: 'auto' })
+    .action(async ({ session, options }, host) => {
+      const permissionError = await checkPermission(session, 'manage')
+      if (permissionError) {
+        return permissionError
+      }
+
+      if (!host) {
+        return '请提供服务器地址，例如：绑定服务器+IP地址（不带端口时Java版默认为25565，基岩版默认为19132）'
+      }
+
+      const serverType = parseServerType(options.type)
+      if (!serverType) {
+        return '❌ 服务器类型只能为 java 或 bedrock'
+      }
+
+      const protocol = parseServerProtocol(options.protocol)
+      if (!protocol) {
+        return '❌ 查询协议只能为 auto、legacy 或 query'
+      }
+      if (serverType === 'bedrock' && protocol !== 'auto') {
+        return '❌ 基岩版服务器不支持设置查询协议'
+      }
+
+      const panelError = checkPanelId(options.panel)
+      if (panelError) {
+        return panelError
+      }
+
+      const groupId = session.guildId
+      const userId = session.userId
+
+      let address: ParsedAddress
+      try {
+        address = parseServerAddress(host, getDefaultPort(serverType))
+      } catch (error) {
+        return `❌ ${error.message}`
+      }
+      const { host: parsedHost, port: parsedPort } = address
+
+      const existingServers = await ctx.database.get('minecraft_server', {
+        groupId,
+        host: parsedHost,
+        port: parsedPort
+      })
+
+      if (existingServers.length > 0) {
+        return `该服务器已在本群绑定，服务器ID为: ${existingServers[0].displayId}`
+      }
+
+      const createData: any = {
+        userId,
+        groupId,
+        host: parsedHost,
+        port: parsedPort,
+        explicitPort: address.explicitPort,
+        serverType,
+        protocol,
+        timeout: options.timeout,
+        panel: options.panel,
+        instanceId: options.instance,
+        active: true,
+        displayId: await allocateDisplayId(groupId),
+        platform: session.platform,
+        channelId: session.channelId,
+        notify: false,
+      }
+      if (options.name) {
+        createData.name = options.name
+      }
+      if (options.key) {
+        createData.apiKeyName = options.key
+      }
+
+      if (config.guardBoundServers) {
+        const guardError = await guardAddress(session, createData, true)
+        if (guardError) {
+          return guardError
+        }
+      }
+
+      const accessError = await checkInstanceAccess(createData)
+      if (accessError) {
+        return accessError
+      }
+
+      const newServer = await ctx.database.create('minecraft_server', createData)
+      await writeAuditLog({ groupId, userId, action: 'bind', server: newServer, detail: formatAddress(newServer) })
+
+      let message = `✅ 服务器绑定成功！\n服务器ID: ${newServer.displayId}\n名称: ${newServer.name || 'Minecraft 服务器'}\n类型: ${serverType}`
+      if (protocol !== 'auto') {
+        message += `\n查询协议: ${PROTOCOL_NAMES[protocol]}`
+      }
+      if (options.instance) {
+        message += `\n面板: ${getPanelName(options.panel)}\n实例ID: ${options.instance}`
+      }
+      return message
+    })
+
+  interface PendingApiKeyBinding {
+    groupId: string
+    channelId: string
+    name: string
+    panel: string
+    expiresAt: number
+  }
+
+  // 群内发起、私聊完成的API密钥绑定，键为 平台:用户ID
+  const pendingApiKeyBindings = new Map<string, PendingApiKeyBinding>()
+  const API_KEY_BINDING_TIMEOUT = 10 * 60 * 1000
+
+  ctx.command('mc/绑定API密钥 [apiKey:string]', '绑定面板API密钥（群内发起，私聊完成）')
+    .option('name', '-n <name:string>', { fallback: DEFAULT_API_KEY_NAME })
+    .option('panel', '--panel <panel:string>', { fallback: DEFAULT_PANEL })
+    .action(async ({ session, options }, apiKey) => {
+      const pendingKey = `${session.platform}:${session.userId}`
+
+      if (session.isDirect) {
+        const pending = pendingApiKeyBindings.get(pendingKey)
+        if (!pending || pending.expiresAt < Date.now()) {
+          pendingApiKeyBindings.delete(pendingKey)
+          return '请先在需要绑定的群内发送 绑定API密钥 指令，再在10分钟内私聊发送密钥'
+        }
+
+        if (!apiKey) {
+          return '请提供API密钥，例如：绑定API密钥 ptlc_xxxxxx'
+        }
+
+        const { groupId, name, panel } = pending
+        let result: Awaited<ReturnType<typeof storeApiKey>>
+        try {
+          result = await storeApiKey(groupId, name, panel, apiKey, session.userId)
+        } catch (error) {
+          return `❌ ${error.message}，请检查后重新发送`
+        }
+        pendingApiKeyBindings.delete(pendingKey)
+
+        const { fingerprint, action } = result
+        try {
+          await session.bot.sendMessage(pending.channelId, `🔑 本群的${getPanelName(panel)}面板API密钥「${name}」已由 ${session.username || session.userId} ${action}，指纹：${formatFingerprint(fingerprint)}`)
+        } catch (error) {
+          ctx.logger.warn(`向群 ${groupId} 发送API密钥${action}通知失败:`, error)
+        }
+        return `✅ 群 ${groupId} 的${getPanelName(panel)}面板API密钥「${name}」${action}成功！\n指纹：${formatFingerprint(fingerprint)}`
+      }
+
+      if (!session.guildId) return
+
+      const permissionError = await checkPermission(session, 'manage')
+      if (permissionError) {
+        return permissionError
+      }
+
+      const panelError = checkPanelId(options.panel)
+      if (panelError) {
+        return panelError
+      }
+
+      let message = ''
+      if (apiKey) {
+        // 密钥已经在群内公开，尽量撤回这条消息
+        try {
+          await session.bot.deleteMessage(session.channelId, session.messageId)
+          message += '⚠️ 为保护密钥安全，请勿在群内发送API密钥，已尝试撤回该消息，建议前往面板重新生成密钥。\n'
+        } catch {
+          message += '⚠️ 为保护密钥安全，请勿在群内发送API密钥，建议撤回该消息并前往面板重新生成密钥。\n'
+        }
+      }
+
+      const name = options.name.trim() || DEFAULT_API_KEY_NAME
+      pendingApiKeyBindings.set(pendingKey, {
+        groupId: session.guildId,
+        channelId: session.channelId,
+        name,
+        panel: options.panel,
+        expiresAt: Date.now() + API_KEY_BINDING_TIMEOUT,
+      })
+
+      const hint = `请在10分钟内私聊机器人发送：“绑定API密钥 你的密钥”，完成群 ${session.guildId} 的${getPanelName(options.panel)}面板API密钥「${name}」绑定`
+      try {
+        await session.bot.sendPrivateMessage(session.userId, hint)
+        return message + '📨 已私聊你继续完成API密钥绑定'
+      } catch {
+        return message + `📨 ${hint}`
+      }
+    })
+
+  ctx.guild()
+    .command('mc/API密钥 [action:string] [name:string]', '查看或撤销本群的面板API密钥')
+    .action(async ({ session }, action, name) => {
+      // 密钥列表包含指纹、绑定者和使用的服务器，查看和撤销都需要管理权限
+      const permissionError = await checkPermission(session, 'manage')
+      if (permissionError) {
+        return permissionError
+      }
+
+      const groupId = session.guildId
+      const apiKeys = await ctx.database.get('minecraft_api_key', { groupId })
+
+      if (!action) {
+        if (apiKeys.length === 0) {
+          return '本群暂未绑定面板API密钥'
+        }
+        const servers = await ctx.database.get('minecraft_server', { groupId })
+        let message = `🔑 本群已绑定 ${apiKeys.length} 个面板API密钥：\n`
+        apiKeys.forEach((record) => {
+          // 未指定密钥的服务器只会使用同一面板下的唯一密钥或 default 密钥
+          const panelKeys = apiKeys.filter(item => getPanelId(item) === getPanelId(record))
+          const users = servers
+            .filter(server => server.instanceId && getPanelId(server) === getPanelId(record))
+            .filter(server => server.apiKeyName ? server.apiKeyName === record.name : panelKeys.length === 1 || record.name === DEFAULT_API_KEY_NAME)
+            .map(server => `[ID:${server.displayId}] ${getServerName(server)}`)
+          message += `\n「${record.name}」\n`
+          message += `  面板: ${getPanelName(getPanelId(record))}\n`
+          message += `  指纹: ${formatFingerprint(record.fingerprint)}\n`
+          message += `  绑定者: ${record.userId}\n`
+          message += `  存储方式: ${isEncrypted(record.apiKey) ? '加密' : '明文'}\n`
+          if (users.length > 0) {
+            message += `  使用的服务器: ${users.join(', ')}\n`
+          }
+        })
+        return message.trim()
+      }
+
+      if (action !== '撤销') {
+        return '请使用正确的操作：撤销'
+      }
+
+      if (apiKeys.length === 0) {
+        return '本群暂未绑定面板API密钥'
+      }
+
+      if (!name) {
+        if (apiKeys.length > 1) {
+          return `本群绑定了多个API密钥，请指定要撤销的密钥名称，例如：API密钥 撤销 ${apiKeys[0].name}`
+        }
+        name = apiKeys[0].name
+      }
+
+      const result = await ctx.database.remove('minecraft_api_key', { groupId, name })
+      if (!result.removed) {
+        return `❌ 未找到名为「${name}」的API密钥`
+      }
+      await writeAuditLog({ groupId, userId: session.userId, action: 'apikey.revoke', detail: `「${name}」` })
+      return `✅ 本群的API密钥「${name}」已撤销`
+    })
+
+  ctx.guild()
+    .command('mc/解绑服务器 <id:number>', '解绑Minecraft服务器')
+    .action(async ({ session }, id) => {
+      if (!id) {
+        return '请提供服务器ID，例如：解绑服务器 1'
+      }
+
+      const groupId = session.guildId
+
+      const server = await findOwnedServer(groupId, id)
+
+      if (!server) {
+        return `❌ 未找到ID为 ${id} 的服务器`
+      }
+
+      const permissionError = await checkPermission(session, 'manage', server)
+      if (permissionError) {
+        return permissionError
+      }
+
+      await ctx.database.remove('minecraft_server', { id: server.id })
+      await ctx.database.remove('minecraft_server_share', { serverId: server.id })
+      await ctx.database.remove('minecraft_status_history', { serverId: server.id })
+      await ctx.database.remove('minecraft_resource_history', { serverId: server.id })
+      await ctx.database.remove('minecraft_bridge', { serverId: server.id })
+      await refreshBridgeGroups()
+      await ctx.database.remove('minecraft_schedule', { serverId: server.id })
+      await ctx.database.remove('minecraft_permission', { serverId: server.id })
+      await writeAuditLog({ groupId, userId: session.userId, action: 'unbind', server, detail: formatAddress(server) })
+
+      return `✅ 服务器已解绑`
+    })
+
+  ctx.guild()
+    .command('mc/修改服务器 <id:number>', '修改Minecraft服务器信息')
+    .option('name', '-n <name:string>', { fallback: '' })
+    .option('timeout', '-t <timeout:number>', { fallback: 0 })
+    .option('panel', '--panel <panel:string>', { fallback: '' })
+    .option('instance', '-i <instance:string>', { fallback: '' })
+    .option('type', '--type <type:string>', { fallback: '' })
+    .option('type', '-b', { value: 'bedrock' })
+    .option('key', '-k <key:string>', { fallback: '' })
+    .option('protocol', '-p <protocol:string>', { fallback: '' })
+    .action(async ({ session, options }, id) => {
+      if (!id) {
+        return '请提供服务器ID，例如：修改服务器 1'
+      }
+
+      const groupId = session.guildId
+
+      const server = await findOwnedServer(groupId, id)
+
+      if (!server) {
+        return `❌ 未找到ID为 ${id} 的服务器`
+      }
+
+      const permissionError = await checkPermission(session, 'manage', server)
+      if (permissionError) {
+        return permissionError
+      }
+
+      const { updates, error } = await prepareServerUpdates(server, options)
+      if (error) {
+        return error
+      }
+
+      if (Object.keys(updates).length === 0) {
+        return '请提供要修改的参数，使用 -n 指定新名称，-t 指定新超时时间，--panel 指定面板，-i 指定新实例ID，-k 指定API密钥名称，-b 或 --type 指定服务器类型，-p 指定查询协议'
+      }
+
+      await ctx.database.set('minecraft_server', { id: server.id }, updates)
+
+      const parts = describeServerUpdates(updates)
+      await writeAuditLog({ groupId, userId: session.userId, action: 'modify', server, detail: parts.join('，') })
+
+      return `✅ 服务器信息已更新！\n${parts.join('\n')}`
+    })
+
+  ctx.guild()
+    .command('mc/开服 <id:number>', '启动面板上的服务器')
+    .action(async ({ session }, id) => {
+      if (!id) return '请提供服务器ID，例如：开服 1'
+
+      const groupId = session.guildId
+
+      const server = await findOwnedServer(groupId, id)
+
+      if (!server) return `❌ 未找到ID为 ${id} 的服务器，请确保操作的是本群绑定的服务器`
+
+      const permissionError = await checkPermission(session, 'power', server)
+      if (permissionError) {
+        return permissionError
+      }
+
+      const panelError = checkPanelServer(server)
+      if (panelError) return panelError
+
+      return runPowerCommand(session, server, 'start', '启动')
+    })
+
+  ctx.guild()
+    .command('mc/重启 <id:number>', '重启面板上的服务器')
+    .action(async ({ session }, id) => {
+      if (!id) return '请提供服务器ID，例如：重启 1'
+
+      const groupId = session.guildId
+
+      const server = await findOwnedServer(groupId, id)
+
+      if (!server) return `❌ 未找到ID为 ${id} 的服务器，请确保操作的是本群绑定的服务器`
+
+      const permissionError = await checkPermission(session, 'power', server)
+      if (permissionError) {
+        return permissionError
+      }
+
+      const panelError = checkPanelServer(server)
+      if (panelError) return panelError
+
+      return runPowerCommand(session, server, 'restart', '重启')
+    })
+
+  ctx.guild()
+    .command('mc/强制重启 <id:number>', '强制重启面板上的服务器')
+    .action(async ({ session }, id) => {
+      if (!id) return '请提供服务器ID，例如：强制重启 1'
+
+      const groupId = session.guildId
+
+      const server = await findOwnedServer(groupId, id)
+
+      if (!server) return `❌ 未找到ID为 ${id} 的服务器，请确保操作的是本群绑定的服务器`
+
+      const permissionError = await checkPermission(session, 'power', server)
+      if (permissionError) {
+        return permissionError
+      }
+
+      const panelError = checkPanelServer(server)
+      if (panelError) return panelError
+
+      return runPowerCommand(session, server, 'force-restart', '强制重启')
+    })
+
+  ctx.guild()
+    .command('mc/资源 <id:number>', '查看面板上的服务器资源使用情况')
+    .option('trend', '--趋势, --trend <range:string>')
+    .action(async ({ session, options }, id) => {
+      if (!id) return '请提供服务器ID，例如：资源 1'
+
+      const groupId = session.guildId
+
+      const server = await findOwnedServer(groupId, id)
+
+      if (!server) return `❌ 未找到ID为 ${id} 的服务器，请确保操作的是本群绑定的服务器`
+
+      const permissionError = await checkPermission(session, 'resources', server)
+      if (permissionError) {
+        return permissionError
+      }
+
+      const panelError = checkPanelServer(server)
+      if (panelError) return panelError
+
+      if (options.trend) {
+        return replyResourceTrend(server, options.trend)
+      }
+
+      try {
+        const resources = await fetchPanelResources(server)
+        const currentState = resources.state
+        const isSuspended = resources.suspended
+
+        const memoryUsed = resources.memory / 1024 / 1024 / 1024
+        const cpuUsage = resources.cpu
+        const diskUsed = resources.disk / 1024 / 1024 / 1024
+        const uptime = resources.uptime
+
+        const uptimeDays = Math.floor(uptime / 86400)
+        const uptimeHours = Math.floor((uptime % 86400) / 3600)
+        const uptimeMinutes = Math.floor((uptime % 3600) / 60)
+        const uptimeSeconds = uptime % 60
+        const formattedUptime = `${uptimeDays}天 ${uptimeHours}小时 ${uptimeMinutes}分钟 ${uptimeSeconds}秒`
+
+        let message = `📊 ${server.name} 资源使用情况\n`
+        message += `📋 状态: ${currentState === 'running' ? '运行中' : currentState}\n`
+        message += `🔄 暂停: ${isSuspended ? '是' : '否'}\n`
+        message += `🖥️ CPU: ${cpuUsage.toFixed(2)}%\n`
+        message += `💾 内存: ${memoryUsed.toFixed(2)}GB\n`
+        message += `💿 磁盘: ${diskUsed.toFixed(2)}GB\n`
+        message += `📡 网络接收: ${(resources.networkRx / 1024 / 1024).toFixed(2)}MB\n`
+        message += `📡 网络发送: ${(resources.networkTx / 1024 / 1024).toFixed(2)}MB\n`
+        message += `⏱️ 运行时间: ${formattedUptime}\n`
+        message += `⏰ 查询时间: ${new Date().toLocaleString('zh-CN')}`
+
+        return message
+      } catch (error) {
+        return `❌ 查询服务器资源使用情况失败: ${error.message}`
+      }
+    })
+
+  ctx.guild()
+    .command('mc/服务器列表', '查看已绑定的服务器列表')
+    .action(async ({ session }) => {
+      const permissionError = await checkPermission(session, 'query')
+      if (permissionError) {
+        return permissionError
+      }
+
+      const groupId = session.guildId
+
+      const servers = await getVisibleServers(groupId)
+
+      if (servers.length === 0) {
+        return '本群暂未绑定任何服务器'
+      }
+
+      const shares = await ctx.database.get('minecraft_server_share', {
+        serverId: servers.filter(server => !server.shared).map(server => server.id),
+      })
+
+      let message = `📋 本群已绑定 ${servers.length} 台服务器：\n\n`
+      servers.forEach(server => {
+        // 兼容旧数据：null 也视为活跃
+        const activeStatus = server.active === false ? '🔴 不活跃' : '🟢 活跃'
+        message += `[ID:${server.displayId}] ${server.name} | ${activeStatus}\n`
+        if (config.showIpInDetail) {
+          message += `  地址: ${formatAddress(getServerAddress(server))}\n`
+        }
+        const protocol = server.protocol && server.protocol !== 'auto' ? ` | 协议: ${PROTOCOL_NAMES[server.protocol]}` : ''
+        message += `  类型: ${server.serverType} | 超时: ${server.timeout}秒${protocol}\n`
+        if (server.shared) {
+          message += `  共享自群: ${server.groupId}\n\n`
+          return
+        }
+        const sharedGroups = shares.filter(share => share.serverId === server.id).map(share => share.groupId)
+        if (sharedGroups.length > 0) {
+          message += `  共享到群: ${sharedGroups.join(', ')}\n`
+        }
+        if (config.enableMonitor) {
+          message += `  监控推送: ${server.notify ? '开启' : '关闭'}\n`
+        }
+        if (server.instanceId) {
+          message += `  面板实例: ${getPanelName(getPanelId(server))} ${server.instanceId}\n`
+        }
+        if (server.apiKeyName) {
+          message += `  API密钥: ${server.apiKeyName}\n`
+        }
+        message += '\n'
+      })
+
+      return message.trim()
+    })
+
+  const EXPORT_FORMATS: Record<string, ExportFormat> = {
+    json: 'json',
+    yaml: 'yaml',
+    yml: 'yaml',
   }
 
-  ctx.guild()
-    .command('mc/查服 [target:text]', '查询Minecraft服务器状态')
-    .action(async ({ session }, target) => {
-      const servers = await ctx.database.get('minecraft_server', {}) 
+  const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+    json: 'application/json',
+    yaml: 'application/yaml',
+  }
 
-      if (target === undefined) {
-        // 过滤出活跃的服务器（兼容旧数据：null 也视为活跃）
-        const activeServers = servers.filter(server => server.active !== false)
-        if (activeServers.length === 0) {
-          return '❌ 本群未绑定任何服务器，请先使用 绑定服务器 指令'
+  const MAX_IMPORT_FILE_SIZE = 1024 * 1024
+
+  type ImportConflictMode = 'skip' | 'overwrite'
+
+  function parseImportConflictMode(mode: string): ImportConflictMode | null {
+    const normalized = mode?.toLowerCase()
+    if (normalized === 'skip' || normalized === '跳过') return 'skip'
+    if (normalized === 'overwrite' || normalized === '覆盖') return 'overwrite'
+    return null
+  }
+
+  function toExportEntry(server: ServerConfig): ServerExportEntry {
+    return {
+      name: server.name || '',
+      host: server.host,
+      port: server.port,
+      explicitPort: !!server.explicitPort,
+      type: server.serverType,
+      protocol: server.protocol || 'auto',
+      timeout: server.timeout,
+      panel: getPanelId(server),
+      instance: server.instanceId || '',
+      active: server.active !== false,
+    }
+  }
+
+  // 依次读取指令消息中的文件、引用消息中的文件和直接粘贴的内容
+  async function readImportContent(session: Session, content: string) {
+    const files = [
+      ...h.select(session.elements || [], 'file'),
+      ...h.select(session.quote?.elements || [], 'file'),
+    ]
+    if (files.length === 0) {
+      return h.unescape(content || '').trim()
+    }
+    return (await downloadImportFile(files[0])).toString('utf8')
+  }
+
+  // 下载前先检查平台给出的大小，下载时超出上限立即中止，避免大文件占满内存
+  async function downloadImportFile(file: h) {
+    const tooLarge = () => new Error(`文件大小不能超过 ${formatBytes(MAX_IMPORT_FILE_SIZE)}`)
+    if (+file.attrs.size > MAX_IMPORT_FILE_SIZE) throw tooLarge()
+
+    const src: string = file.attrs.src
+    if (!/^https?:/i.test(src)) {
+      // data: 等地址交给 HTTP 服务解析，base64 内容在解码前按长度估算大小
+      const base64 = /^data:[^,]*;base64,/i.exec(src)
+      if (base64 && (src.length - base64[0].length) * 3 / 4 > MAX_IMPORT_FILE_SIZE) throw tooLarge()
+      const { data } = await ctx.http.file(src)
+      if (data.byteLength > MAX_IMPORT_FILE_SIZE) throw tooLarge()
+      return Buffer.from(data)
+    }
+
+    const response = await ctx.http(src, { method: 'GET', responseType: 'stream' })
+    if (+response.headers.get('content-length') > MAX_IMPORT_FILE_SIZE) {
+      await response.data.cancel()
+      throw tooLarge()
+    }
+    const chunks: Uint8Array[] = []
+    let size = 0
+    // 提前退出循环时会取消响应流
+    for await (const chunk of response.data) {
+      size += chunk.byteLength
+      if (size > MAX_IMPORT_FILE_SIZE) throw tooLarge()
+      chunks.push(chunk)
+    }
+    return Buffer.concat(chunks)
+  }
+
+  interface ImportPlanItem {
+    entry: ServerExportEntry
+    existing?: ServerConfig
+    updates?: Partial<ServerConfig>
+    error?: string
+  }
+
+  // 只比较文件中给出的字段，名称、面板和实例ID为空时保留原值
+  function getImportChanges(server: ServerConfig, entry: ServerExportEntry) {
+    const input: ServerUpdateInput = {}
+    if (entry.name && entry.name !== server.name) input.name = entry.name
+    if (entry.timeout !== server.timeout) input.timeout = entry.timeout
+    if (entry.panel && entry.panel !== getPanelId(server)) input.panel = entry.panel
+    if (entry.instance && entry.instance !== server.instanceId) input.instance = entry.instance
+    if (entry.type !== server.serverType) {
+      input.type = entry.type
+      input.port = entry.port
+    }
+    if (entry.protocol !== (server.protocol || 'auto')) input.protocol = entry.protocol
+    if (entry.active !== (server.active !== false)) input.active = entry.active
+    if (entry.explicitPort !== !!server.explicitPort) input.explicitPort = entry.explicitPort
+    return input
+  }
+
+  function toImportServerData(session: Session, entry: ServerExportEntry) {
+    const data: Partial<ServerConfig> = {
+      userId: session.userId,
+      groupId: session.guildId,
+      host: entry.host,
+      port: entry.port,
+      explicitPort: entry.explicitPort,
+      serverType: entry.type,
+      protocol: entry.protocol,
+      timeout: entry.timeout,
+      panel: entry.panel || DEFAULT_PANEL,
+      instanceId: entry.instance,
+      active: entry.active,
+      platform: session.platform,
+      channelId: session.channelId,
+      notify: false,
+    }
+    if (entry.name) {
+      data.name = entry.name
+    }
+    return data
+  }
+
+  // 新增的服务器按绑定指令的规则校验，地址冲突的服务器按冲突处理方式决定是否覆盖
+  async function planServerImport(session: Session, entries: ServerExportEntry[], mode: ImportConflictMode) {
+    const servers = await ctx.database.get('minecraft_server', { groupId: session.guildId })
+    const plan: ImportPlanItem[] = []
+    for (const entry of entries) {
+      const existing = servers.find(server => server.host === entry.host && server.port === entry.port)
+      if (existing) {
+        if (mode === 'skip') {
+          plan.push({ entry, existing })
+          continue
         }
+        const { updates, error } = await prepareServerUpdates(existing, getImportChanges(existing, entry))
+        plan.push({ entry, existing, updates, error })
+        continue
+      }
 
-        const queries = activeServers.map(server => queryServerStatus(server))
-        const results = await Promise.all(queries)
+      const data = toImportServerData(session, entry) as ServerConfig
+      const error = checkPanelId(data.panel)
+        || (config.guardBoundServers && await guardAddress(session, data, true))
+        || await checkInstanceAccess(data)
+      plan.push({ entry, error })
+    }
+    return plan
+  }
 
-        const onlineCount = results.filter(r => r.success && r.data && r.data.online).length
+  function isImportChange(item: ImportPlanItem) {
+    return !item.error && (!item.existing || Object.keys(item.updates || {}).length > 0)
+  }
 
-        let message = `📊 服务器状态汇总 (当前在线${onlineCount}/${results.length}台)\n\n`
-        results.forEach((result) => {
-          const serverId = result.server.id
-          if (result.success) {
-            const originalStatus = formatShortStatus(result.data, result.server)
-            message += `[ID:${serverId}] ${originalStatus}\n`
-          } else {
-            message += `[ID:${serverId}] 🔴 ${getServerName(result.server)} - 离线 | 原因：${result.error}\n`
-          }
-        })
+  function formatImportPlan(plan: ImportPlanItem[], errors: string[], mode: ImportConflictMode) {
+    const describe = (entry: ServerExportEntry) => `${entry.name || 'Minecraft 服务器'} (${formatAddress(entry)}, ${entry.type})`
+    const created = plan.filter(item => !item.existing && !item.error)
+    const updated = plan.filter(item => item.existing && isImportChange(item))
+    const skipped = plan.filter(item => item.existing && !item.error && !isImportChange(item))
+    const failed = [
+      ...errors,
+      ...plan.filter(item => item.error).map(item => `${formatAddress(item.entry)}：${item.error.replace(/^❌\s*/, '')}`),
+    ]
+
+    const lines = [`📥 导入预览（文件中共 ${plan.length + errors.length} 项）`]
+    if (created.length > 0) {
+      lines.push(`➕ 新增 ${created.length} 台:`)
+      lines.push(...created.map(item => `  ${describe(item.entry)}`))
+    }
+    if (updated.length > 0) {
+      lines.push(`🔁 覆盖 ${updated.length} 台:`)
+      lines.push(...updated.map(item => `  [ID:${item.existing.displayId}] ${formatAddress(item.entry)}：${describeServerUpdates(item.updates).join('，')}`))
+    }
+    if (skipped.length > 0) {
+      const reason = mode === 'overwrite' ? '本群已绑定相同地址且没有变化' : '本群已绑定相同地址，使用 -c 覆盖 可以更新'
+      lines.push(`⏭️ 跳过 ${skipped.length} 台（${reason}）:`)
+      lines.push(...skipped.map(item => `  [ID:${item.existing.displayId}] ${describe(item.entry)}`))
+    }
+    if (failed.length > 0) {
+      lines.push(`❌ 无法导入 ${failed.length} 项:`)
+      lines.push(...failed.map(error => `  ${error}`))
+    }
+    return lines.join('\n')
+  }
 
-        message += `\n💡 输入"查服+服务器ID"即可查询详细状态，例如：查服 ${activeServers[0]?.id || 1}`
-        message += `\n💡 也可以直接输入IP地址查询`
+  ctx.guild()
+    .command('mc/导出 [format:string]', '导出本群绑定的服务器（JSON 或 YAML）')
+    .action(async ({ session }, format = 'json') => {
+      const permissionError = await checkPermission(session, 'manage')
+      if (permissionError) {
+        return permissionError
+      }
 
-        return message
+      const exportFormat = EXPORT_FORMATS[format.toLowerCase()]
+      if (!exportFormat) {
+        return '导出格式只能为 json 或 yaml'
       }
 
-      // 尝试作为数字ID处理
-      const id = parseInt(target)
-      if (!isNaN(id)) {
-        const server = servers.find(s => s.id === id)
-        if (server) {
-          // 检查服务器是否活跃（兼容旧数据：null 也视为活跃）
-          if (server.active === false) {
-            return `❌ 服务器 ${server.name} (ID: ${id}) 处于不活跃状态，无法查询`
-          }
-          const result = await queryServerStatus(server)
-          if (!result.success) {
-            return `🔴 ${getServerName(server)} - 离线 | 原因：${result.error}`
-          }
-          return formatDetailedStatus(result.data, server, config.showIpInDetail)
+      const servers = await ctx.database.get('minecraft_server', { groupId: session.guildId })
+      if (servers.length === 0) {
+        return '本群暂未绑定任何服务器'
+      }
+
+      servers.sort((a, b) => a.displayId - b.displayId)
+      const content = serializeServers(servers.map(toExportEntry), exportFormat)
+      const filename = `minecraft-servers-${session.guildId}.${exportFormat === 'yaml' ? 'yml' : 'json'}`
+      return h.file(Buffer.from(content), EXPORT_MIME_TYPES[exportFormat], { title: filename })
+    })
+
+  ctx.guild()
+    .command('mc/导入 [content:text]', '从导出的 JSON 或 YAML 文件导入服务器')
+    .option('dryRun', '-d')
+    .option('conflict', '-c <mode:string>', { fallback: 'skip' })
+    .action(async ({ session, options }, content) => {
+      const permissionError = await checkPermission(session, 'manage')
+      if (permissionError) {
+        return permissionError
+      }
+
+      const mode = parseImportConflictMode(options.conflict)
+      if (!mode) {
+        return '❌ 冲突处理方式只能为 skip（跳过）或 overwrite（覆盖）'
+      }
+
+      let text: string
+      try {
+        text = await readImportContent(session, content)
+      } catch (error) {
+        return `❌ 读取导入文件失败: ${error.message}`
+      }
+      if (!text) {
+        return '请在发送指令时附带导出的文件，或引用包含该文件的消息，也可以直接粘贴文件内容，例如：导入 -d'
+      }
+
+      let parsed: ReturnType<typeof parseServerFile>
+      try {
+        parsed = parseServerFile(text)
+      } catch (error) {
+        return `❌ ${error.message}`
+      }
+
+      const plan = await planServerImport(session, parsed.servers, mode)
+      const preview = formatImportPlan(plan, parsed.errors, mode)
+
+      if (options.dryRun) {
+        return `${preview}\n\n以上为预览，未做任何修改`
+      }
+      // 任意一项无法导入时整个文件都不导入，避免只导入一半
+      if (parsed.errors.length > 0 || plan.some(item => item.error)) {
+        return `${preview}\n\n❌ 存在无法导入的条目，请修正文件后重新导入`
+      }
+
+      const pending = plan.filter(isImportChange)
+      if (pending.length === 0) {
+        return `${preview}\n\n没有需要导入的服务器`
+      }
+
+      await session.send(`${preview}\n\n请在 30 秒内回复"确认"继续，回复其他内容取消。`)
+      const reply = await session.prompt(30000)
+      if (reply?.trim() !== '确认') {
+        return '已取消导入'
+      }
+
+      const groupId = session.guildId
+      let created = 0
+      let updated = 0
+      let skipped = plan.length - pending.length
+      for (const item of pending) {
+        if (item.existing) {
+          await ctx.database.set('minecraft_server', { id: item.existing.id }, item.updates)
+          await writeAuditLog({ groupId, userId: session.userId, action: 'modify', server: item.existing, detail: `导入：${describeServerUpdates(item.updates).join('，')}` })
+          updated++
+          continue
         }
+
+        // 等待确认期间可能已有人绑定了相同地址
+        const duplicates = await ctx.database.get('minecraft_server', { groupId, host: item.entry.host, port: item.entry.port })
+        if (duplicates.length > 0) {
+          skipped++
+          continue
+        }
+        const server = await ctx.database.create('minecraft_server', {
+          ...toImportServerData(session, item.entry),
+          displayId: await allocateDisplayId(groupId),
+        })
+        await writeAuditLog({ groupId, userId: session.userId, action: 'bind', server, detail: `${formatAddress(server)}（导入）` })
+        created++
       }
 
-      // 作为IP地址处理
-      const host = String(target)
-      const defaultPort = 25565
-      const { host: parsedHost, port: parsedPort } = parseServerAddress(host, defaultPort)
-      
-      // 创建临时服务器配置
-      const tempServer: ServerConfig = {
-        id: 0,
-        userId: session.userId,
-        groupId: session.guildId || '',
-        name: parsedHost,
-        host: parsedHost,
-        port: parsedPort,
-        serverType: 'java',
-        timeout: 5.0,
-        active: true,
+      return `✅ 导入完成：新增 ${created} 台，覆盖 ${updated} 台，跳过 ${skipped} 台`
+    })
+
+  ctx.guild()
+    .command('mc/设置实例 <id:number> <instanceId:string>', '设置服务器的面板实例ID')
+    .action(async ({ session }, id, instanceId) => {
+      if (!id || !instanceId) {
+        return '请提供服务器ID和实例ID，例如：设置实例 1 abc123'
       }
 
-      const result = await queryServerStatus(tempServer)
-      if (!result.success) {
-        return `🔴 服务器 - 离线 | 原因：${result.error}`
+      const groupId = session.guildId
+
+      const server = await findOwnedServer(groupId, id)
+
+      if (!server) {
+        return `❌ 未找到ID为 ${id} 的服务器`
+      }
+
+      const permissionError = await checkPermission(session, 'manage', server)
+      if (permissionError) {
+        return permissionError
+      }
+
+      const accessError = await checkInstanceAccess({ ...server, instanceId })
+      if (accessError) {
+        return accessError
       }
 
-      return formatDetailedStatus(result.data, tempServer, config.showIpInDetail)
+      await ctx.database.set('minecraft_server', { id: server.id }, { instanceId })
+      await writeAuditLog({ groupId, userId: session.userId, action: 'instance', server, detail: instanceId })
+
+      return `✅ ${server.name} 的${getPanelName(getPanelId(server))}面板实例ID已设置为: ${instanceId}`
     })
 
   ctx.guild()
-    .command('mc/绑定服务器 <host:string>', '绑定Minecraft服务器')
-    .option('name', '-n <name:string>', { fallback: '' })
-    .option('timeout', '-t <timeout:number>', { fallback: 5 })
-    .option('instance', '-i <instance:string>', { fallback: '' })
-    .action(async ({ session, options }, host) => {
-      const permissionError = await checkPermission(session, config)
+    .command('mc/服务器状态 <id:number> [status:text]', '查询或设置服务器活跃状态')
+    .action(async ({ session }, id, status) => {
+      if (!id) {
+        return '请提供服务器ID，例如：服务器状态 1'
+      }
+
+      const groupId = session.guildId
+
+      const server = await findOwnedServer(groupId, id)
+
+      if (!server) {
+        return `❌ 未找到ID为 ${id} 的服务器`
+      }
+
+      const permissionError = await checkPermission(session, 'manage', server)
       if (permissionError) {
         return permissionError
       }
 
-      if (!host) {
-        return '请提供服务器地址，例如：绑定服务器+IP地址（不带端口时默认为25565）'
+      if (!status) {
+        // 查询状态（兼容旧数据：null 也视为活跃）
+        const activeStatus = server.active === false ? '🔴 不活跃' : '🟢 活跃'
+        return `📋 ${server.name} (ID: ${id}) 状态：${activeStatus}`
+      } else if (status === '启用') {
+        // 设置为活跃
+        await ctx.database.set('minecraft_server', { id: server.id }, { active: true })
+        await writeAuditLog({ groupId, userId: session.userId, action: 'active', server, detail: status })
+        return `✅ ${server.name} (ID: ${id}) 已设置为活跃状态`
+      } else if (status === '停用') {
+        // 设置为不活跃
+        await ctx.database.set('minecraft_server', { id: server.id }, { active: false })
+        await writeAuditLog({ groupId, userId: session.userId, action: 'active', server, detail: status })
+        return `✅ ${server.name} (ID: ${id}) 已设置为不活跃状态`
+      } else {
+        return '请使用正确的状态值：启用 或 停用'
+      }
+    })
+
+  ctx.guild()
+    .command('mc/监控 <id:number> [status:text]', '查询或设置服务器状态推送')
+    .action(async ({ session }, id, status) => {
+      if (!id) {
+        return '请提供服务器ID，例如：监控 1 开启'
       }
 
       const groupId = session.guildId
-      const userId = session.userId
 
-      const defaultPort = 25565
-      const { host: parsedHost, port: parsedPort } = parseServerAddress(host, defaultPort)
+      const server = await findOwnedServer(groupId, id)
 
-      const existingServers = await ctx.database.get('minecraft_server', {
-        groupId,
-        host: parsedHost,
-        port: parsedPort
-      })
+      if (!server) {
+        return `❌ 未找到ID为 ${id} 的服务器`
+      }
 
-      if (existingServers.length > 0) {
-        return `该服务器已在本群绑定，服务器ID为: ${existingServers[0].id}`
+      const permissionError = await checkPermission(session, 'manage', server)
+      if (permissionError) {
+        return permissionError
       }
 
-      const createData: any = {
-        userId,
-        groupId,
-        host: parsedHost,
-        port: parsedPort,
-        serverType: 'java',
-        timeout: options.timeout,
-        minekuaiInstanceId: options.instance,
-        active: true,
+      if (!status) {
+        const notifyStatus = server.notify ? '🔔 开启' : '🔕 关闭'
+        const monitorHint = config.enableMonitor ? '' : '\n⚠️ 后台监控未启用，请联系机器人管理员开启'
+        return `📋 ${server.name} (ID: ${id}) 状态推送：${notifyStatus}${monitorHint}`
+      } else if (status === '开启') {
+        // 记录推送目标，兼容没有平台信息的旧数据
+        await ctx.database.set('minecraft_server', { id: server.id }, {
+          notify: true,
+          platform: session.platform,
+          channelId: session.channelId,
+        })
+        await writeAuditLog({ groupId, userId: session.userId, action: 'notify', server, detail: status })
+        return `✅ ${server.name} (ID: ${id}) 已开启状态推送，上下线及玩家进出将通知本群`
+      } else if (status === '关闭') {
+        await ctx.database.set('minecraft_server', { id: server.id }, { notify: false })
+        await writeAuditLog({ groupId, userId: session.userId, action: 'notify', server, detail: status })
+        return `✅ ${server.name} (ID: ${id}) 已关闭状态推送`
+      } else {
+        return '请使用正确的状态值：开启 或 关闭'
       }
-      if (options.name) {
-        createData.name = options.name
+    })
+
+  ctx.guild()
+    .command('mc/统计 <id:number> [range:string]', '查看服务器在线率和玩家统计')
+    .action(async ({ session }, id, range = '24h') => {
+      if (!id) {
+        return '请提供服务器ID，例如：统计 1 7d'
+      }
+
+      if (!config.enableHistory) {
+        return '❌ 未启用状态历史记录，请联系机器人管理员开启'
+      }
+
+      const rangeSeconds = STATISTICS_RANGES[range]
+      if (!rangeSeconds) {
+        return `请使用正确的统计范围：${Object.keys(STATISTICS_RANGES).join('、')}`
+      }
+
+      const groupId = session.guildId
+
+      const server = await findVisibleServer(groupId, id)
+
+      if (!server) {
+        return `❌ 未找到ID为 ${id} 的服务器`
+      }
+
+      const permissionError = await checkPermission(session, 'query', server)
+      if (permissionError) {
+        return permissionError
+      }
+
+      const now = Date.now()
+      const samples = await ctx.database
+        .select('minecraft_status_history')
+        .where({ serverId: server.id, time: { $gte: new Date(now - rangeSeconds * 1000) } })
+        .orderBy('time', 'asc')
+        .execute()
+
+      if (samples.length === 0) {
+        return `📊 ${getServerName(server)} 在最近 ${range} 内暂无状态记录`
+      }
+
+      const { uptime, averagePlayers, peakSample, longestOutage } = summarizeStatusHistory(samples, now)
+
+      let message = `📊 ${getServerName(server)} 最近 ${range} 统计\n`
+      message += `✅ 在线率: ${uptime.toFixed(2)}% (${samples.length}次采样)\n`
+      message += `👥 平均人数: ${averagePlayers.toFixed(1)}\n`
+      if (peakSample) {
+        message += `🔝 最高人数: ${peakSample.players} (${peakSample.time.toLocaleString('zh-CN')})\n`
+      }
+      if (longestOutage) {
+        message += `🔴 最长离线: ${formatDuration(longestOutage.duration / 1000)} (自 ${longestOutage.start.toLocaleString('zh-CN')} 起)\n`
+      } else {
+        message += `🔴 最长离线: 无\n`
+      }
+      message += `📅 统计起点: ${samples[0].time.toLocaleString('zh-CN')}`
+
+      return message
+    })
+
+  ctx.guild()
+    .command('mc/执行 <id:number> <command:text>', '向面板上的服务器控制台发送指令')
+    .action(async ({ session }, id, command) => {
+      if (!id || !command) return '请提供服务器ID和指令，例如：执行 1 say 大家好'
+
+      const groupId = session.guildId
+
+      const server = await findOwnedServer(groupId, id)
+
+      if (!server) return `❌ 未找到ID为 ${id} 的服务器，请确保操作的是本群绑定的服务器`
+
+      const permissionError = await checkPermission(session, 'console', server)
+      if (permissionError) {
+        return permissionError
+      }
+
+      const panelError = checkPanelServer(server)
+      if (panelError) return panelError
+
+      const commandError = checkConsoleCommand(command)
+      if (commandError) return commandError
+
+      const entry = { groupId, userId: session.userId, action: 'console', server }
+      try {
+        await sendConsoleCommand(server, command.trim())
+        await writeAuditLog({ ...entry, detail: command.trim() })
+        return `✅ 已向 ${getServerName(server)} 发送指令: ${command.trim()}`
+      } catch (error) {
+        await writeAuditLog({ ...entry, success: false, detail: `${command.trim()}：${error.message}` })
+        return `❌ 发送指令失败: ${error.message}`
+      }
+    })
+
+  ctx.guild()
+    .command('mc/控制台 <id:number>', '查看面板上的服务器控制台最近的日志')
+    .option('lines', '-n <lines:posint>')
+    .action(async ({ session, options }, id) => {
+      if (!id) return '请提供服务器ID，例如：控制台 1'
+
+      const groupId = session.guildId
+
+      const server = await findOwnedServer(groupId, id)
+
+      if (!server) return `❌ 未找到ID为 ${id} 的服务器，请确保操作的是本群绑定的服务器`
+
+      const permissionError = await checkPermission(session, 'console', server)
+      if (permissionError) {
+        return permissionError
       }
 
-      await ctx.database.create('minecraft_server', createData)
+      const panelError = checkPanelServer(server)
+      if (panelError) return panelError
+
+      const lines = Math.min(options.lines || config.consoleLogLines, 100)
+
+      try {
+        const logs = await fetchConsoleLogs(server, lines)
+        const name = h.escape(getServerName(server))
+        if (logs.length === 0) {
+          return `📋 ${name} 暂无控制台日志`
+        }
+        // 日志中的聊天内容形如 <Steve> hi，需要转义后才不会被当作消息元素
+        return `📋 ${name} 最近 ${logs.length} 行控制台日志：\n${logs.map(line => h.escape(line)).join('\n')}`
+      } catch (error) {
+        return `❌ 获取控制台日志失败: ${error.message}`
+      }
+    })
 
-      const servers = await ctx.database.get('minecraft_server', { groupId })
-      const newServer = servers[servers.length - 1]
+  const BRIDGE_FLUSH_DELAY = 1000
+  const MAX_BRIDGE_BATCH = 20
 
-      return `✅ 服务器绑定成功！\n服务器ID: ${newServer.id}\n名称: ${newServer.name || 'Minecraft 服务器'}`
-    })
+  const bridgeQueues = new Map<number, { server: ServerConfig, lines: string[] }>()
 
-  ctx.guild()
-    .command('mc/绑定API密钥 <apiKey:string>', '绑定麦块API密钥')
-    .action(async ({ session }, apiKey) => {
-      const permissionError = await checkPermission(session, config)
-      if (permissionError) {
-        return permissionError
-      }
+  // 群号 → 开启了消息互通的服务器ID，避免每条群消息都查询数据库；开启、关闭和解绑后刷新
+  const bridgeGroups = new Map<string, number[]>()
 
-      if (!apiKey) {
-        return '请提供API密钥'
-      }
+  async function refreshBridgeGroups() {
+    const bridges = await ctx.database.get('minecraft_bridge', { enabled: true })
+    const servers = bridges.length > 0
+      ? await ctx.database.get('minecraft_server', { id: bridges.map(bridge => bridge.serverId) })
+      : []
+    bridgeGroups.clear()
+    for (const server of servers) {
+      bridgeGroups.set(server.groupId, [...bridgeGroups.get(server.groupId) || [], server.id])
+    }
+  }
 
-      const groupId = session.guildId
-      const userId = session.userId
+  function getBridgeUrl() {
+    return (ctx.server?.selfUrl || '') + config.bridgePath
+  }
 
-      const existingKeys = await ctx.database.get('minecraft_api_key', { groupId })
+  // 游戏内消息较多时合并为一条发送，避免刷屏和触发平台的频率限制
+  function queueBridgeMessage(server: ServerConfig, line: string) {
+    const queue = bridgeQueues.get(server.id)
+    if (queue) {
+      queue.lines.push(line)
+      return
+    }
+    bridgeQueues.set(server.id, { server, lines: [line] })
+    ctx.setTimeout(() => flushBridgeQueue(server.id), BRIDGE_FLUSH_DELAY)
+  }
 
-      if (existingKeys.length > 0) {
-        await ctx.database.set('minecraft_api_key', { groupId }, { apiKey })
-        return '✅ API密钥更新成功！'
-      }
+  async function flushBridgeQueue(serverId: number) {
+    const queue = bridgeQueues.get(serverId)
+    bridgeQueues.delete(serverId)
+    if (!queue) return
+    const lines = queue.lines.slice(0, MAX_BRIDGE_BATCH)
+    if (queue.lines.length > MAX_BRIDGE_BATCH) {
+      lines.push(`…另有 ${queue.lines.length - MAX_BRIDGE_BATCH} 条消息未显示`)
+    }
+    await sendToServerGroup(queue.server, lines.join('\n'))
+  }
 
-      await ctx.database.create('minecraft_api_key', {
-        userId,
-        groupId,
-        apiKey
-      })
+  // 只转发到本群绑定的服务器，发送失败不影响群聊
+  async function forwardToGame(session: Session) {
+    const content = toBridgeText(session.elements || []).trim()
+    if (!content || config.bridgeIgnorePrefixes.some(prefix => prefix && content.startsWith(prefix))) return
 
-      return '✅ API密钥绑定成功！'
-    })
+    const serverIds = bridgeGroups.get(session.guildId)
+    if (!serverIds) return
+    const servers = await ctx.database.get('minecraft_server', { id: serverIds })
 
-  ctx.guild()
-    .command('mc/解绑服务器 <id:number>', '解绑Minecraft服务器')
-    .action(async ({ session }, id) => {
-      const permissionError = await checkPermission(session, config)
-      if (permissionError) {
-        return permissionError
+    const sender = session.author?.nick || session.author?.name || session.username || session.userId
+    await Promise.all(servers.map(async (server) => {
+      // 兼容旧数据：null 也视为活跃
+      if (server.active === false || checkPanelServer(server)) return
+      try {
+        const command = buildTellraw(server.serverType, sender, content, config.bridgeMaxLength)
+        await panelRequest(server, 'bridge', (panel, target) => panel.sendCommand(target, command), 1, undefined, 'debug')
+      } catch (error) {
+        ctx.logger.warn(`转发群消息到服务器 ${server.id} 失败:`, error)
       }
+    }))
+  }
 
-      if (!id) {
-        return '请提供服务器ID，例如：解绑服务器 1'
-      }
+  if (config.enableBridge) {
+    ctx.on('ready', refreshBridgeGroups)
 
-      const groupId = session.guildId
+    // Koishi 指令在此之前已被处理，不会进入这个中间件
+    ctx.guild().middleware(async (session, next) => {
+      if (!session.stripped.appel) {
+        forwardToGame(session).catch(error => ctx.logger.warn('转发群消息失败:', error))
+      }
+      return next()
+    })
 
-      const servers = await ctx.database.get('minecraft_server', { groupId })
-      const server = servers.find(s => s.id === id)
+    ctx.inject(['server'], (ctx) => {
+      ctx.server.post(config.bridgePath, async (koa) => {
+        const token = (koa.get('authorization') || '').replace(/^Bearer\s+/i, '').trim()
+        const [bridge] = token ? await ctx.database.get('minecraft_bridge', { tokenHash: hashSecret(token) }) : []
+        if (!bridge) {
+          koa.status = 401
+          koa.body = { error: '令牌无效' }
+          return
+        }
+        if (!bridge.enabled) {
+          koa.status = 403
+          koa.body = { error: '该服务器的消息互通已关闭' }
+          return
+        }
 
-      if (!server) {
-        return `❌ 未找到ID为 ${id} 的服务器`
-      }
+        const [server] = await ctx.database.get('minecraft_server', { id: bridge.serverId })
+        if (!server) {
+          koa.status = 404
+          koa.body = { error: '服务器不存在' }
+          return
+        }
 
-      await ctx.database.remove('minecraft_server', { id })
+        const event = parseBridgeEvent(koa.request.body)
+        if (typeof event === 'string') {
+          koa.status = 400
+          koa.body = { error: event }
+          return
+        }
 
-      return `✅ 服务器已解绑`
+        if (config.bridgeEvents.includes(event.type)) {
+          queueBridgeMessage(server, formatBridgeEvent(event, getServerName(server)))
+        }
+        koa.status = 204
+      })
     })
+  }
+
+  // 令牌只在生成时私聊发送一次，无法私聊时不在群内显示
+  async function sendBridgeToken(session: Session, server: ServerConfig, token: string) {
+    const hint = [
+      `🔑 ${getServerName(server)} 的消息互通令牌：${token}`,
+      `服务端插件向 ${getBridgeUrl()} 发送 POST 请求，并在 Authorization 请求头中填写 Bearer ${token}`,
+    ].join('\n')
+    try {
+      await session.bot.sendPrivateMessage(session.userId, hint)
+      return '📨 已私聊你发送 webhook 令牌，请妥善保管'
+    } catch {
+      return `⚠️ 无法私聊你发送 webhook 令牌，请添加机器人为好友后使用"互通 ${server.displayId} 重置令牌"重新生成`
+    }
+  }
 
   ctx.guild()
-    .command('mc/修改服务器 <id:number>', '修改Minecraft服务器信息')
-    .option('name', '-n <name:string>', { fallback: '' })
-    .option('timeout', '-t <timeout:number>', { fallback: 0 })
-    .option('instance', '-i <instance:string>', { fallback: '' })
-    .action(async ({ session, options }, id) => {
-      const permissionError = await checkPermission(session, config)
+    .command('mc/互通 <id:number> [action:string]', '管理服务器与群聊的消息互通')
+    .usage('操作：状态（默认）、开启、关闭、重置令牌')
+    .action(async ({ session }, id, action = '状态') => {
+      if (!id) return '请提供服务器ID，例如：互通 1 开启'
+
+      const groupId = session.guildId
+
+      const server = await findOwnedServer(groupId, id)
+
+      if (!server) return `❌ 未找到ID为 ${id} 的服务器，请确保操作的是本群绑定的服务器`
+
+      const permissionError = await checkPermission(session, 'manage', server)
       if (permissionError) {
         return permissionError
       }
 
-      if (!id) {
-        return '请提供服务器ID，例如：修改服务器 1'
+      if (!config.enableBridge) {
+        return '❌ 消息互通未启用，请联系机器人管理员在插件配置中开启 enableBridge'
       }
 
-      const groupId = session.guildId
+      const name = getServerName(server)
+      const [bridge] = await ctx.database.get('minecraft_bridge', { serverId: server.id })
+      const entry = { groupId, userId: session.userId, action: 'bridge', server }
 
-      const servers = await ctx.database.get('minecraft_server', { groupId })
-      const server = servers.find(s => s.id === id)
+      if (action === '状态') {
+        if (!bridge) return `📋 ${name} 未开启消息互通\n💡 输入"互通 ${id} 开启"即可开启`
 
-      if (!server) {
-        return `❌ 未找到ID为 ${id} 的服务器`
+        const panelError = checkPanelServer(server)
+        const lines = [`📋 ${name} 消息互通：${bridge.enabled ? '🟢 开启' : '🔴 关闭'}`]
+        lines.push(panelError ? `⚠️ 群 → 游戏：${panelError.replace(/^❌\s*/, '')}，无法发送到游戏内` : '➡️ 群 → 游戏：通过面板控制台的 tellraw 发送')
+        lines.push(ctx.server ? `⬅️ 游戏 → 群：${getBridgeUrl()}` : '⚠️ 游戏 → 群：未启用 server 服务，无法接收服务端插件的推送')
+        return lines.join('\n')
       }
 
-      const updates: any = {}
-      if (options.name) {
-        updates.name = options.name
-      }
-      if (options.timeout > 0) {
-        updates.timeout = options.timeout
-      }
-      if (options.instance) {
-        updates.minekuaiInstanceId = options.instance
-      }
+      if (action === '开启') {
+        if (bridge?.enabled) return `${name} 已开启消息互通`
+        if (bridge) {
+          await ctx.database.set('minecraft_bridge', { id: bridge.id }, { enabled: true })
+          await refreshBridgeGroups()
+          await writeAuditLog({ ...entry, detail: '开启' })
+          return `✅ 已开启 ${name} 的消息互通`
+        }
 
-      if (Object.keys(updates).length === 0) {
-        return '请提供要修改的参数，使用 -n 指定新名称，-t 指定新超时时间，-i 指定新麦块实例ID'
+        const token = createToken('mcb_')
+        await ctx.database.create('minecraft_bridge', { serverId: server.id, enabled: true, tokenHash: hashSecret(token), createdAt: new Date() })
+        await refreshBridgeGroups()
+        await writeAuditLog({ ...entry, detail: '开启' })
+        return `✅ 已开启 ${name} 的消息互通\n${await sendBridgeToken(session, server, token)}`
       }
 
-      await ctx.database.set('minecraft_server', { id }, updates)
+      if (action === '关闭') {
+        if (!bridge?.enabled) return `${name} 未开启消息互通`
+        await ctx.database.set('minecraft_bridge', { id: bridge.id }, { enabled: false })
+        await refreshBridgeGroups()
+        await writeAuditLog({ ...entry, detail: '关闭' })
+        return `✅ 已关闭 ${name} 的消息互通`
+      }
 
-      const parts = []
-      if (updates.name) parts.push(`名称: ${updates.name}`)
-      if (updates.timeout) parts.push(`超时: ${updates.timeout}秒`)
-      if (updates.minekuaiInstanceId) parts.push(`麦块实例ID: ${updates.minekuaiInstanceId}`)
+      if (action === '重置令牌') {
+        if (!bridge) return `${name} 未开启消息互通`
+        const token = createToken('mcb_')
+        await ctx.database.set('minecraft_bridge', { id: bridge.id }, { tokenHash: hashSecret(token) })
+        await writeAuditLog({ ...entry, detail: '重置令牌' })
+        return `✅ 已重置 ${name} 的 webhook 令牌，旧令牌立即失效\n${await sendBridgeToken(session, server, token)}`
+      }
 
-      return `✅ 服务器信息已更新！\n${parts.join('\n')}`
+      return '请使用正确的操作：状态、开启、关闭 或 重置令牌'
     })
 
   ctx.guild()
-    .command('mc/开服 <id:number>', '启动麦块服务器')
-    .action(async ({ session }, id) => {
-      const permissionError = await checkPermission(session, config, true)
-      if (permissionError) {
-        return permissionError
-      }
-
-      if (!id) return '请提供服务器ID，例如：开服 1'
+    .command('mc/备份 <id:number> [action:string] [target:text]', '管理面板上的服务器备份')
+    .usage('操作：列表（默认）、创建 [备份名称]、恢复 序号')
+    .action(async ({ session }, id, action = '列表', target) => {
+      if (!id) return '请提供服务器ID，例如：备份 1'
 
       const groupId = session.guildId
 
-      const servers = await ctx.database.get('minecraft_server', { groupId })
-      const server = servers.find(s => s.id === id)
+      const server = await findOwnedServer(groupId, id)
 
       if (!server) return `❌ 未找到ID为 ${id} 的服务器，请确保操作的是本群绑定的服务器`
-      if (!server.minekuaiInstanceId) return `${server.name} 未配置麦块实例ID`
-
-      try {
-        await minekuaiApiRequest(server.minekuaiInstanceId, 'start', groupId, 3)
-        return `✅ 已发送启动指令到 ${server.name} (ID: ${id})`
-      } catch (error) {
-        return `❌ 启动服务器失败: ${error.message}`
-      }
-    })
 
-  ctx.guild()
-    .command('mc/重启 <id:number>', '重启麦块服务器')
-    .action(async ({ session }, id) => {
-      const permissionError = await checkPermission(session, config, true)
+      const permissionError = await checkPermission(session, 'manage', server)
       if (permissionError) {
         return permissionError
       }
 
-      if (!id) return '请提供服务器ID，例如：重启 1'
-
-      const groupId = session.guildId
+      const panelError = checkPanelServer(server)
+      if (panelError) return panelError
 
-      const servers = await ctx.database.get('minecraft_server', { groupId })
-      const server = servers.find(s => s.id === id)
+      const panel = getPanel(getPanelId(server))
+      if (!panel.backups) return `❌ ${panel.name}面板不支持备份管理`
 
-      if (!server) return `❌ 未找到ID为 ${id} 的服务器，请确保操作的是本群绑定的服务器`
-      if (!server.minekuaiInstanceId) return `${server.name} 未配置麦块实例ID`
+      if (action === '列表') {
+        try {
+          const backups = await listBackups(server)
+          if (backups.length === 0) {
+            return `📦 ${getServerName(server)} 暂无备份`
+          }
 
-      try {
-        await minekuaiApiRequest(server.minekuaiInstanceId, 'restart', groupId, 3)
-        return `✅ ${server.name} 重启指令已发送完成，请稍后检查服务器状态`
-      } catch (error) {
-        return `❌ 重启服务器失败: ${error.message}`
+          let message = `📦 ${getServerName(server)} 共有 ${backups.length} 个备份：\n`
+          backups.forEach((backup, index) => {
+            message += `\n[${index + 1}] ${backup.name}${backup.locked ? ' 🔒' : ''}\n`
+            message += `  大小: ${formatBytes(backup.bytes)} | 状态: ${formatBackupStatus(backup)}\n`
+            message += `  创建时间: ${new Date(backup.createdAt).toLocaleString('zh-CN')}\n`
+          })
+          message += `\n💡 输入"备份 ${id} 恢复 序号"即可恢复指定备份`
+          return message
+        } catch (error) {
+          return `❌ 获取备份列表失败: ${error.message}`
+        }
       }
-    })
 
-  ctx.guild()
-    .command('mc/强制重启 <id:number>', '强制重启麦块服务器')
-    .action(async ({ session }, id) => {
-      const permissionError = await checkPermission(session, config, true)
-      if (permissionError) {
-        return permissionError
+      if (action === '创建') {
+        const entry = { groupId, userId: session.userId, action: 'backup.create', server }
+        try {
+          const backup = await createBackup(server, target?.trim())
+          await writeAuditLog({ ...entry, detail: backup.name })
+          return `✅ 已开始创建备份: ${backup.name}\n💡 备份完成前请勿进行高风险操作，可使用"备份 ${id}"查看进度`
+        } catch (error) {
+          await writeAuditLog({ ...entry, success: false, detail: error.message })
+          return `❌ 创建备份失败: ${error.message}`
+        }
       }
 
-      if (!id) return '请提供服务器ID，例如：强制重启 1'
-
-      const groupId = session.guildId
+      if (action === '恢复') {
+        const index = parseInt(target)
+        if (isNaN(index)) return `请提供要恢复的备份序号，例如：备份 ${id} 恢复 1`
 
-      const servers = await ctx.database.get('minecraft_server', { groupId })
-      const server = servers.find(s => s.id === id)
+        let backup: PanelBackup
+        try {
+          const backups = await listBackups(server)
+          backup = backups[index - 1]
+        } catch (error) {
+          return `❌ 获取备份列表失败: ${error.message}`
+        }
 
-      if (!server) return `❌ 未找到ID为 ${id} 的服务器，请确保操作的是本群绑定的服务器`
-      if (!server.minekuaiInstanceId) return `${server.name} 未配置麦块实例ID`
+        if (!backup) return `❌ 未找到序号为 ${index} 的备份`
+        if (!backup.completedAt || !backup.successful) return `❌ 备份 ${backup.name} 尚未完成或创建失败，无法恢复`
 
-      try {
-        await minekuaiApiRequest(server.minekuaiInstanceId, 'stop', groupId, 3)
-        await new Promise(resolve => setTimeout(resolve, 1000))
-        await minekuaiApiRequest(server.minekuaiInstanceId, 'kill', groupId, 3)
-        await new Promise(resolve => setTimeout(resolve, 3000))
-        await minekuaiApiRequest(server.minekuaiInstanceId, 'start', groupId, 3)
+        await session.send(`⚠️ 即将把 ${getServerName(server)} 恢复到备份 ${backup.name}（${new Date(backup.createdAt).toLocaleString('zh-CN')}），当前存档将被覆盖。\n请在 30 秒内回复"确认"继续，回复其他内容取消。`)
+        const reply = await session.prompt(30000)
+        if (reply?.trim() !== '确认') {
+          return '已取消恢复操作'
+        }
 
-        return `✅ ${server.name} 强制重启指令已发送完成，请稍后检查服务器状态`
-      } catch (error) {
-        return `❌ 强制重启服务器失败: ${error.message}`
+        const entry = { groupId, userId: session.userId, action: 'backup.restore', server }
+        try {
+          await restoreBackup(server, backup.id)
+          await writeAuditLog({ ...entry, detail: backup.name })
+          return `✅ 已开始恢复备份 ${backup.name}，恢复期间服务器将不可用`
+        } catch (error) {
+          await writeAuditLog({ ...entry, success: false, detail: `${backup.name}：${error.message}` })
+          return `❌ 恢复备份失败: ${error.message}`
+        }
       }
+
+      return '请使用正确的操作：列表、创建 或 恢复'
     })
 
   ctx.guild()
-    .command('mc/资源 <id:number>', '查看麦块服务器资源使用情况')
-    .action(async ({ session }, id) => {
-      if (!id) return '请提供服务器ID，例如：资源 1'
+    .command('mc/定时 <id:number> [action:string] [target:text]', '管理服务器定时电源任务')
+    .option('countdown', '-c <seconds:natural>', { fallback: 0 })
+    .usage('操作：列表（默认）、添加 [-c 倒计时秒数] 动作 cron表达式、删除 序号\n动作：开服、重启、关服\ncron表达式：分 时 日 月 周，例如 0 4 * * * 表示每天4点')
+    .action(async ({ session, options }, id, action = '列表', target) => {
+      if (!id) return '请提供服务器ID，例如：定时 1'
 
       const groupId = session.guildId
 
-      const servers = await ctx.database.get('minecraft_server', { groupId })
-      const server = servers.find(s => s.id === id)
+      const server = await findOwnedServer(groupId, id)
 
       if (!server) return `❌ 未找到ID为 ${id} 的服务器，请确保操作的是本群绑定的服务器`
-      if (!server.minekuaiInstanceId) return `${server.name} 未配置麦块实例ID`
 
-      try {
-        const apiKeys = await ctx.database.get('minecraft_api_key', { groupId })
-        if (!apiKeys || apiKeys.length === 0) {
-          throw new Error('本群未配置麦块API密钥，请先使用 绑定API密钥 指令')
-        }
-        const apiKeyRecord = apiKeys[0]
+      const permissionError = await checkPermission(session, 'manage', server)
+      if (permissionError) {
+        return permissionError
+      }
 
-        const baseUrl = config.minekuaiApiUrl.replace(/\/+$/, '')
-        const url = `${baseUrl}/servers/${server.minekuaiInstanceId}/resources`
-        const headers = {
-          'Authorization': `Bearer ${apiKeyRecord.apiKey}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
+      const panelError = checkPanelServer(server)
+      if (panelError) return panelError
+
+      if (action === '列表' || action === 'list') {
+        const schedules = await getServerSchedules(server)
+        if (schedules.length === 0) {
+          return `⏰ ${getServerName(server)} 暂无定时任务\n💡 输入"定时 ${id} 添加 重启 0 4 * * *"即可添加每天4点重启的任务`
         }
 
-        const response = await ctx.http.get(url, { headers })
-        ctx.logger.info(`麦块API资源查询成功: 实例 ${server.minekuaiInstanceId}`)
+        let message = `⏰ ${getServerName(server)} 共有 ${schedules.length} 个定时任务：\n`
+        schedules.forEach((schedule, index) => {
+          const next = getNextRun(parseCron(schedule.cron), new Date())
+          message += `\n[${index + 1}] ${schedule.cron} ${SCHEDULE_ACTIONS[schedule.action]}`
+          if (schedule.countdown) message += `（倒计时${formatDuration(schedule.countdown)}）`
+          message += `\n  下次执行: ${next ? next.toLocaleString('zh-CN') : '无'}\n`
+        })
+        message += `\n💡 输入"定时 ${id} 删除 序号"即可删除指定任务`
+        return message
+      }
 
-        const attributes = response.attributes
-        const resources = attributes.resources
-        const currentState = attributes.current_state
-        const isSuspended = attributes.is_suspended
+      if (action === '添加' || action === 'add') {
+        const [actionText, ...cronParts] = (target || '').trim().split(/\s+/)
+        const scheduleAction = parseScheduleAction(actionText)
+        if (!scheduleAction) return `请提供正确的动作：开服、重启 或 关服，例如：定时 ${id} 添加 重启 0 4 * * *`
+
+        const expression = cronParts.join(' ')
+        let next: Date
+        try {
+          next = getNextRun(parseCron(expression), new Date())
+        } catch (error) {
+          return `❌ cron表达式无效: ${error.message}`
+        }
+        if (!next) return '❌ 该cron表达式在未来不会触发，请检查日期设置'
+
+        const countdown = options.countdown
+        if (countdown > 600) return '❌ 倒计时最长为600秒'
+        if (countdown && scheduleAction === 'start') return '❌ 开服任务不支持倒计时'
+
+        await ctx.database.create('minecraft_schedule', {
+          serverId: server.id,
+          userId: session.userId,
+          action: scheduleAction,
+          cron: expression,
+          countdown,
+          createdAt: new Date(),
+        })
+        await writeAuditLog({ groupId, userId: session.userId, action: 'schedule.add', server, detail: `${expression} ${SCHEDULE_ACTIONS[scheduleAction]}` })
 
-        const memoryUsed = resources.memory_bytes / 1024 / 1024 / 1024
-        const cpuUsage = resources.cpu_absolute
-        const diskUsed = resources.disk_bytes / 1024 / 1024 / 1024
-        const uptime = resources.uptime
+        return `✅ 已为 ${getServerName(server)} 添加定时任务：${expression} ${SCHEDULE_ACTIONS[scheduleAction]}\n⏰ 下次执行: ${next.toLocaleString('zh-CN')}`
+      }
 
-        const uptimeDays = Math.floor(uptime / 86400)
-        const uptimeHours = Math.floor((uptime % 86400) / 3600)
-        const uptimeMinutes = Math.floor((uptime % 3600) / 60)
-        const uptimeSeconds = uptime % 60
-        const formattedUptime = `${uptimeDays}天 ${uptimeHours}小时 ${uptimeMinutes}分钟 ${uptimeSeconds}秒`
+      if (action === '删除' || action === 'remove') {
+        const index = parseInt(target)
+        if (isNaN(index)) return `请提供要删除的任务序号，例如：定时 ${id} 删除 1`
 
-        let message = `📊 ${server.name} 资源使用情况\n`
-        message += `📋 状态: ${currentState === 'running' ? '运行中' : currentState}\n`
-        message += `🔄 暂停: ${isSuspended ? '是' : '否'}\n`
-        message += `🖥️ CPU: ${cpuUsage.toFixed(2)}%\n`
-        message += `💾 内存: ${memoryUsed.toFixed(2)}GB\n`
-        message += `💿 磁盘: ${diskUsed.toFixed(2)}GB\n`
-        message += `📡 网络接收: ${(resources.network_rx_bytes / 1024 / 1024).toFixed(2)}MB\n`
-        message += `📡 网络发送: ${(resources.network_tx_bytes / 1024 / 1024).toFixed(2)}MB\n`
-        message += `⏱️ 运行时间: ${formattedUptime}\n`
-        message += `⏰ 查询时间: ${new Date().toLocaleString('zh-CN')}`
+        const schedules = await getServerSchedules(server)
+        const schedule = schedules[index - 1]
+        if (!schedule) return `❌ 未找到序号为 ${index} 的定时任务`
 
-        return message
-      } catch (error) {
-        return `❌ 查询服务器资源使用情况失败: ${error.message}`
+        await ctx.database.remove('minecraft_schedule', { id: schedule.id })
+        await writeAuditLog({ groupId, userId: session.userId, action: 'schedule.remove', server, detail: `${schedule.cron} ${SCHEDULE_ACTIONS[schedule.action]}` })
+        return `✅ 已删除定时任务：${schedule.cron} ${SCHEDULE_ACTIONS[schedule.action]}`
       }
+
+      return '请使用正确的操作：列表、添加 或 删除'
     })
 
   ctx.guild()
-    .command('mc/服务器列表', '查看已绑定的服务器列表')
-    .action(async ({ session }) => {
+    .command('mc/共享服务器 <id:number> <targetGroupId:string>', '将服务器共享给其他群查询')
+    .action(async ({ session }, id, targetGroupId) => {
+      if (!id || !targetGroupId) {
+        return '请提供服务器ID和目标群号，例如：共享服务器 1 123456'
+      }
+
       const groupId = session.guildId
 
-      const servers = await ctx.database.get('minecraft_server', { groupId })
+      const server = await findOwnedServer(groupId, id)
 
-      if (servers.length === 0) {
-        return '本群暂未绑定任何服务器'
+      if (!server) {
+        return `❌ 未找到ID为 ${id} 的服务器`
       }
 
-      let message = `📋 本群已绑定 ${servers.length} 台服务器：\n\n`
-      servers.forEach(server => {
-        // 兼容旧数据：null 也视为活跃
-        const activeStatus = server.active === false ? '🔴 不活跃' : '🟢 活跃'
-        message += `[ID:${server.id}] ${server.name} | ${activeStatus}\n`
-        if (config.showIpInDetail) {
-          message += `  地址: ${server.host}:${server.port}\n`
-        }
-        message += `  类型: ${server.serverType} | 超时: ${server.timeout}秒\n`
-        if (server.minekuaiInstanceId) {
-          message += `  麦块实例: ${server.minekuaiInstanceId}\n`
-        }
-        message += '\n'
+      const permissionError = await checkPermission(session, 'manage', server)
+      if (permissionError) {
+        return permissionError
+      }
+
+      if (targetGroupId === groupId) {
+        return '❌ 不能将服务器共享给本群'
+      }
+
+      const existingShares = await ctx.database.get('minecraft_server_share', { serverId: server.id, groupId: targetGroupId })
+      if (existingShares.length > 0) {
+        return `该服务器已共享给群 ${targetGroupId}，在该群中的服务器ID为: ${existingShares[0].displayId}`
+      }
+
+      const share = await ctx.database.create('minecraft_server_share', {
+        serverId: server.id,
+        groupId: targetGroupId,
+        displayId: await allocateDisplayId(targetGroupId),
       })
+      await writeAuditLog({ groupId, userId: session.userId, action: 'share', server, detail: `群 ${targetGroupId}` })
 
-      return message.trim()
+      return `✅ ${getServerName(server)} 已共享给群 ${targetGroupId}\n在该群中的服务器ID: ${share.displayId}\n💡 共享的服务器在目标群中只能查询，不能管理`
     })
 
   ctx.guild()
-    .command('mc/设置实例 <id:number> <instanceId:string>', '设置服务器的麦块实例ID')
-    .action(async ({ session }, id, instanceId) => {
-      const permissionError = await checkPermission(session, config)
+    .command('mc/取消共享 <id:number> <targetGroupId:string>', '取消服务器对其他群的共享')
+    .action(async ({ session }, id, targetGroupId) => {
+      if (!id || !targetGroupId) {
+        return '请提供服务器ID和目标群号，例如：取消共享 1 123456'
+      }
+
+      const groupId = session.guildId
+
+      const server = await findOwnedServer(groupId, id)
+
+      if (!server) {
+        return `❌ 未找到ID为 ${id} 的服务器`
+      }
+
+      const permissionError = await checkPermission(session, 'manage', server)
       if (permissionError) {
         return permissionError
       }
 
-      if (!id || !instanceId) {
-        return '请提供服务器ID和实例ID，例如：设置实例 1 abc123'
+      const result = await ctx.database.remove('minecraft_server_share', { serverId: server.id, groupId: targetGroupId })
+      if (!result.removed) {
+        return `❌ 该服务器未共享给群 ${targetGroupId}`
       }
+      await writeAuditLog({ groupId, userId: session.userId, action: 'unshare', server, detail: `群 ${targetGroupId}` })
+
+      return `✅ 已取消 ${getServerName(server)} 对群 ${targetGroupId} 的共享`
+    })
 
+  ctx.guild()
+    .command('mc/权限 [action:string] [target:string] [permission:string] [user:user]', '管理成员的服务器权限')
+    .option('role', '-r <role:string>')
+    .usage('操作：列表（默认）、授予 服务器ID|全部 权限|全部 @成员（或 -r 角色）、撤销 序号\n权限：查询、管理、电源、资源、控制台\n群主、群管理员和 Koishi 权限等级足够的用户拥有全部权限')
+    .action(async ({ session, options }, action = '列表', target, permission, user) => {
       const groupId = session.guildId
+      const servers = await getVisibleServers(groupId)
+      const formatScope = (serverId: number) => {
+        if (!serverId) return '全部服务器'
+        const server = servers.find(s => s.id === serverId)
+        return server ? `${getServerName(server)} (ID: ${server.displayId})` : `服务器 ${serverId}`
+      }
+      const getGrants = async () => {
+        const grants = await ctx.database.get('minecraft_permission', { groupId })
+        return grants.sort((a, b) => a.id - b.id)
+      }
+
+      if (action === '列表' || action === 'list') {
+        const permissionError = await checkPermission(session, 'manage')
+        if (permissionError) {
+          return permissionError
+        }
 
-      const servers = await ctx.database.get('minecraft_server', { groupId })
-      const server = servers.find(s => s.id === id)
+        const grants = await getGrants()
+        if (grants.length === 0) {
+          return '🔐 本群暂无额外授权\n💡 输入"权限 授予 1 电源 @成员"即可授予成员1号服务器的电源权限'
+        }
 
-      if (!server) {
-        return `❌ 未找到ID为 ${id} 的服务器`
+        let message = `🔐 本群共有 ${grants.length} 条授权：\n`
+        grants.forEach((grant, index) => {
+          const subject = grant.subjectType === 'role' ? `角色 ${grant.subjectId}` : `用户 ${grant.subjectId}`
+          message += `\n[${index + 1}] ${subject}：${formatScope(grant.serverId)} ${formatPermissionAction(grant.action)}权限`
+        })
+        message += '\n\n💡 输入"权限 撤销 序号"即可撤销指定授权'
+        return message
+      }
+
+      if (!await isGroupAdmin(session)) {
+        return '❌ 仅限管理员和群主管理权限'
+      }
+
+      if (action === '授予' || action === 'grant') {
+        const example = '例如：权限 授予 1 电源 @成员 或 权限 授予 -r 运维 全部 控制台'
+        if (!target || !permission) return `请提供服务器ID和权限，${example}`
+
+        let serverId = 0
+        if (target !== '全部' && target !== '*') {
+          const displayId = parseInt(target)
+          const server = isNaN(displayId) ? null : await findVisibleServer(groupId, displayId)
+          if (!server) return `❌ 未找到ID为 ${target} 的服务器`
+          serverId = server.id
+        }
+
+        const permissionAction = parsePermissionAction(permission)
+        if (!permissionAction) return '请提供正确的权限：查询、管理、电源、资源、控制台 或 全部'
+
+        let subjectType: PermissionGrant['subjectType']
+        let subjectId: string
+        if (options.role) {
+          subjectType = 'role'
+          subjectId = options.role
+        } else if (user) {
+          // user 类型的参数格式为 平台:用户ID
+          subjectType = 'user'
+          subjectId = user.slice(user.indexOf(':') + 1)
+        } else {
+          return `请@要授权的成员或使用 -r 指定角色，${example}`
+        }
+
+        const existing = await ctx.database.get('minecraft_permission', { groupId, serverId, subjectType, subjectId, action: permissionAction })
+        if (existing.length > 0) return '该授权已存在'
+
+        await ctx.database.create('minecraft_permission', {
+          groupId,
+          serverId,
+          subjectType,
+          subjectId,
+          action: permissionAction,
+          grantedBy: session.userId,
+          createdAt: new Date(),
+        })
+
+        const subject = subjectType === 'role' ? `角色 ${subjectId}` : `用户 ${subjectId}`
+        await writeAuditLog({
+          groupId,
+          userId: session.userId,
+          action: 'permission.grant',
+          server: servers.find(s => s.id === serverId),
+          detail: `${subject} ${formatScope(serverId)} ${formatPermissionAction(permissionAction)}`,
+        })
+        return `✅ 已授予${subject} ${formatScope(serverId)} 的${formatPermissionAction(permissionAction)}权限`
       }
 
-      await ctx.database.set('minecraft_server', { id }, { minekuaiInstanceId: instanceId })
+      if (action === '撤销' || action === 'revoke') {
+        const index = parseInt(target)
+        if (isNaN(index)) return '请提供要撤销的授权序号，例如：权限 撤销 1'
+
+        const grants = await getGrants()
+        const grant = grants[index - 1]
+        if (!grant) return `❌ 未找到序号为 ${index} 的授权`
+
+        await ctx.database.remove('minecraft_permission', { id: grant.id })
+        const subject = grant.subjectType === 'role' ? `角色 ${grant.subjectId}` : `用户 ${grant.subjectId}`
+        await writeAuditLog({
+          groupId,
+          userId: session.userId,
+          action: 'permission.revoke',
+          server: servers.find(s => s.id === grant.serverId),
+          detail: `${subject} ${formatScope(grant.serverId)} ${formatPermissionAction(grant.action)}`,
+        })
+        return `✅ 已撤销${subject} ${formatScope(grant.serverId)} 的${formatPermissionAction(grant.action)}权限`
+      }
 
-      return `✅ ${server.name} 的麦块实例ID已设置为: ${instanceId}`
+      return '请使用正确的操作：列表、授予 或 撤销'
     })
 
+  const AUDIT_ACTIONS: Record<string, string> = {
+    'bind': '绑定服务器',
+    'unbind': '解绑服务器',
+    'modify': '修改服务器',
+    'instance': '设置实例',
+    'active': '设置活跃状态',
+    'notify': '设置状态推送',
+    'share': '共享服务器',
+    'unshare': '取消共享',
+    'apikey.bind': '绑定API密钥',
+    'apikey.revoke': '撤销API密钥',
+    'permission.grant': '授予权限',
+    'permission.revoke': '撤销权限',
+    'schedule.add': '添加定时任务',
+    'schedule.remove': '删除定时任务',
+    'backup.create': '创建备份',
+    'backup.restore': '恢复备份',
+    'console': '执行控制台指令',
+    'address.denied': '拒绝访问地址',
+    'bridge': '设置消息互通',
+    'power.start': '发送启动信号',
+    'power.restart': '发送重启信号',
+    'power.stop': '发送停止信号',
+    'power.kill': '发送强制结束信号',
+  }
+
   ctx.guild()
-    .command('mc/服务器状态 <id:number> [status:text]', '查询或设置服务器活跃状态')
-    .action(async ({ session }, id, status) => {
-      const permissionError = await checkPermission(session, config)
+    .command('mc/日志 [id:number]', '查看服务器管理和电源操作日志')
+    .option('count', '-n <count:posint>', { fallback: 10 })
+    .action(async ({ session, options }, id) => {
+      const groupId = session.guildId
+      const query: Query<AuditLog> = { groupId }
+
+      let server: ServerConfig
+      if (id) {
+        server = await findOwnedServer(groupId, id)
+        if (!server) {
+          return `❌ 未找到ID为 ${id} 的服务器`
+        }
+        query.serverId = server.id
+      }
+
+      const permissionError = await checkPermission(session, 'manage', server)
       if (permissionError) {
         return permissionError
       }
 
-      if (!id) {
-        return '请提供服务器ID，例如：服务器状态 1'
+      const count = Math.min(options.count, 50)
+      const logs = await ctx.database
+        .select('minecraft_audit_log')
+        .where(query)
+        .orderBy('id', 'desc')
+        .limit(count)
+        .execute()
+
+      const scope = server ? getServerName(server) : '本群'
+      if (logs.length === 0) {
+        return `📜 ${scope} 暂无操作日志`
       }
 
-      const groupId = session.guildId
+      let message = `📜 ${scope} 最近 ${logs.length} 条操作日志：\n`
+      logs.forEach((log) => {
+        message += `\n${log.success ? '✅' : '❌'} ${log.createdAt.toLocaleString('zh-CN')} ${AUDIT_ACTIONS[log.action] || log.action}\n`
+        const parts = [`操作者: ${log.userId}`]
+        if (log.serverName && !server) parts.unshift(`服务器: ${log.serverName}`)
+        if (log.retries) parts.push(`重试 ${log.retries} 次`)
+        message += `  ${parts.join(' | ')}\n`
+        if (log.detail) message += `  详情: ${log.detail}\n`
+      })
+      return message.trim()
+    })
 
-      const servers = await ctx.database.get('minecraft_server', { groupId })
-      const server = servers.find(s => s.id === id)
+  function toConsoleServer(server: ServerConfig): ConsoleServer {
+    return {
+      id: server.id,
+      displayId: server.displayId,
+      name: server.name || '',
+      host: server.host,
+      port: server.port,
+      serverType: server.serverType,
+      protocol: server.protocol || 'auto',
+      timeout: server.timeout,
+      panel: getPanelId(server),
+      instanceId: server.instanceId || '',
+      apiKeyName: server.apiKeyName || '',
+      active: server.active !== false,
+    }
+  }
 
-      if (!server) {
-        return `❌ 未找到ID为 ${id} 的服务器`
-      }
+  function toConsoleApiKey(record: ApiKeyConfig): ConsoleApiKey {
+    return {
+      name: record.name,
+      panel: getPanelId(record),
+      fingerprint: formatFingerprint(record.fingerprint),
+      userId: record.userId,
+      encrypted: isEncrypted(record.apiKey),
+    }
+  }
 
-      if (!status) {
-        // 查询状态（兼容旧数据：null 也视为活跃）
-        const activeStatus = server.active === false ? '🔴 不活跃' : '🟢 活跃'
-        return `📋 ${server.name} (ID: ${id}) 状态：${activeStatus}`
-      } else if (status === '启用') {
-        // 设置为活跃
-        await ctx.database.set('minecraft_server', { id }, { active: true })
-        return `✅ ${server.name} (ID: ${id}) 已设置为活跃状态`
-      } else if (status === '停用') {
-        // 设置为不活跃
-        await ctx.database.set('minecraft_server', { id }, { active: false })
-        return `✅ ${server.name} (ID: ${id}) 已设置为不活跃状态`
-      } else {
-        return '请使用正确的状态值：启用 或 停用'
-      }
+  async function getConsoleServer(id: number) {
+    const [server] = await ctx.database.get('minecraft_server', { id })
+    if (!server) throw new Error(`未找到ID为 ${id} 的服务器`)
+    return server
+  }
+
+  // 控制台仅限机器人管理员使用，操作日志中的操作者记为 console
+  ctx.inject(['console'], (ctx) => {
+    ctx.console.addEntry({
+      dev: resolve(__dirname, '../client/index.ts'),
+      prod: resolve(__dirname, '../dist'),
     })
-}
\ No newline at end of file
+
+    ctx.console.addListener('minecraft/groups', async () => {
+      const servers = await ctx.database.get('minecraft_server', {})
+      const apiKeys = await ctx.database.get('minecraft_api_key', {})
+      const groupIds = [...new Set([...servers, ...apiKeys].map(item => item.groupId))].sort()
+      return groupIds.map(groupId => ({
+        groupId,
+        servers: servers
+          .filter(server => server.groupId === groupId)
+          .sort((a, b) => a.displayId - b.displayId)
+          .map(toConsoleServer),
+        apiKeys: apiKeys.filter(record => record.groupId === groupId).map(toConsoleApiKey),
+      }))
+    }, { authority: 4 })
+
+    ctx.console.addListener('minecraft/panels', async () => {
+      return [...panels].map(([id, panel]) => ({ id, name: panel.name }))
+    }, { authority: 4 })
+
+    ctx.console.addListener('minecraft/status', async (id) => {
+      const server = await getConsoleServer(id)
+      const result = await queryServerStatus(server)
+      const status: ConsoleServerStatus = result.success
+        ? {
+          online: true,
+          motd: toPlainText(parseMotd(result.data.description)).trim(),
+          version: result.data.version?.name,
+          players: { online: result.data.players?.online ?? 0, max: result.data.players?.max ?? 0 },
+          latency: result.latency,
+        }
+        : { online: false, error: result.error }
+
+      if (server.instanceId) {
+        try {
+          const { state, cpu, memory, disk, uptime } = await fetchPanelResources(server)
+          status.resources = { state, cpu, memory, disk, uptime }
+        } catch (error) {
+          status.resourceError = error.message
+        }
+      }
+      return status
+    }, { authority: 4 })
+
+    ctx.console.addListener('minecraft/update', async (id, input) => {
+      const server = await getConsoleServer(id)
+      const { updates, error } = await prepareServerUpdates(server, input)
+      // 控制台会自行显示错误样式，去掉指令回复中的前缀
+      if (error) throw new Error(error.replace(/^❌\s*/, ''))
+      if (Object.keys(updates).length === 0) return toConsoleServer(server)
+
+      await ctx.database.set('minecraft_server', { id: server.id }, updates)
+      await writeAuditLog({ groupId: server.groupId, userId: 'console', action: 'modify', server, detail: describeServerUpdates(updates).join('，') })
+      return toConsoleServer({ ...server, ...updates })
+    }, { authority: 4 })
+
+    ctx.console.addListener('minecraft/set-api-key', async (groupId, name, apiKey, panel) => {
+      name = name?.trim() || DEFAULT_API_KEY_NAME
+      panel ||= DEFAULT_PANEL
+      if (!groupId || !apiKey?.trim()) throw new Error('请提供群号和API密钥')
+      const panelError = checkPanelId(panel)
+      if (panelError) throw new Error(panelError.replace(/^❌\s*/, ''))
+      await storeApiKey(groupId, name, panel, apiKey.trim(), 'console')
+      const [record] = await ctx.database.get('minecraft_api_key', { groupId, name })
+      return toConsoleApiKey(record)
+    }, { authority: 4 })
+
+    ctx.console.addListener('minecraft/remove-api-key', async (groupId, name) => {
+      const result = await ctx.database.remove('minecraft_api_key', { groupId, name })
+      if (!result.removed) throw new Error(`未找到名为「${name}」的API密钥`)
+      await writeAuditLog({ groupId, userId: 'console', action: 'apikey.revoke', detail: `「${name}」` })
+    }, { authority: 4 })
+  })
+}
@@ -0,0 +1,269 @@
+import { lookup } from 'dns/promises'
+import { isIP, Socket } from 'net'
+import { HostLookup } from './address'
+
+export type JavaCheckStep = 'dns' | 'connect' | 'handshake' | 'status' | 'ping'
+
+export interface JavaStatus {
+  online: true
+  version: {
+    name: string
+    protocol: number
+  }
+  players: {
+    online: number
+    max: number
+    sample?: { name: string, id: string }[]
+  }
+  description: unknown
+  favicon?: string
+  latency: number
+  [key: string]: unknown
+}
+
+export interface JavaStepResult {
+  step: JavaCheckStep
+  success: boolean
+  duration: number
+  detail?: string
+}
+
+export interface JavaPingOptions {
+  timeout?: number
+  // 传入时 IP 地址也会经过解析函数
+  lookup?: HostLookup
+  // 每完成一个步骤时回调，用于诊断
+  onStep?: (result: JavaStepResult) => void
+}
+
+export class JavaPingError extends Error {
+  constructor(public step: JavaCheckStep, message: string) {
+    super(message)
+  }
+}
+
+const STEP_TIMEOUT_MESSAGES: Record<JavaCheckStep, string> = {
+  dns: '域名解析超时',
+  connect: '连接超时，可能被防火墙拦截或服务器未运行',
+  handshake: '发送握手包超时',
+  status: '服务器未返回状态信息，可能不是 Minecraft 服务器或服务器无响应',
+  ping: '服务器未响应 Ping',
+}
+
+const ERROR_CODE_MESSAGES: Record<string, string> = {
+  ENOTFOUND: '域名不存在或没有解析记录',
+  ENODATA: '域名没有解析记录',
+  EAI_AGAIN: 'DNS 服务器暂时无法解析该域名',
+  ECONNREFUSED: '连接被拒绝，服务器未运行或端口错误',
+  ECONNRESET: '连接被服务器重置',
+  EHOSTUNREACH: '无法访问目标主机',
+  ENETUNREACH: '网络不可达',
+  ETIMEDOUT: '连接超时，可能被防火墙拦截或服务器未运行',
+}
+
+// 握手包中的协议版本，-1 表示客户端不指定版本
+const STATUS_PROTOCOL_VERSION = -1
+
+export function writeVarInt(value: number) {
+  const bytes: number[] = []
+  let remaining = value >>> 0
+  do {
+    let byte = remaining & 0x7f
+    remaining >>>= 7
+    if (remaining !== 0) byte |= 0x80
+    bytes.push(byte)
+  } while (remaining !== 0)
+  return Buffer.from(bytes)
+}
+
+export function readVarInt(buffer: Buffer, offset = 0) {
+  let value = 0
+  for (let i = 0; i < 5; i++) {
+    if (offset + i >= buffer.length) return null
+    const byte = buffer[offset + i]
+    value |= (byte & 0x7f) << (7 * i)
+    if (!(byte & 0x80)) return { value, size: i + 1 }
+  }
+  throw new Error('VarInt 过长')
+}
+
+function writeString(text: string) {
+  const data = Buffer.from(text, 'utf8')
+  return Buffer.concat([writeVarInt(data.length), data])
+}
+
+export function createPacket(id: number, ...fields: Buffer[]) {
+  const body = Buffer.concat([writeVarInt(id), ...fields])
+  return Buffer.concat([writeVarInt(body.length), body])
+}
+
+export function createHandshake(host: string, port: number) {
+  const portBuffer = Buffer.alloc(2)
+  portBuffer.writeUInt16BE(port)
+  // 下一状态 1 表示查询服务器状态
+  return createPacket(0x00, writeVarInt(STATUS_PROTOCOL_VERSION), writeString(host), portBuffer, writeVarInt(1))
+}
+
+function describeError(step: JavaCheckStep, error: any) {
+  const reason = ERROR_CODE_MESSAGES[error?.code] || error?.message || String(error)
+  return new JavaPingError(step, reason)
+}
+
+// 按长度前缀拆分数据包，并依次交给等待中的读取者
+function createPacketReader(socket: Socket) {
+  let buffer = Buffer.alloc(0)
+  let failure: Error
+  let waiter: { resolve: (packet: { id: number, data: Buffer }) => void, reject: (error: Error) => void }
+
+  const flush = () => {
+    if (!waiter) return
+    if (failure) {
+      waiter.reject(failure)
+      waiter = null
+      return
+    }
+    const length = readVarInt(buffer)
+    if (!length || buffer.length < length.size + length.value) return
+    const body = buffer.subarray(length.size, length.size + length.value)
+    buffer = buffer.subarray(length.size + length.value)
+    const id = readVarInt(body)
+    const current = waiter
+    waiter = null
+    current.resolve({ id: id.value, data: body.subarray(id.size) })
+  }
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk])
+    try {
+      flush()
+    } catch (error) {
+      failure = error
+      flush()
+    }
+  })
+  socket.on('close', () => {
+    failure ||= new Error('连接被服务器关闭')
+    flush()
+  })
+
+  return {
+    next() {
+      return new Promise<{ id: number, data: Buffer }>((resolve, reject) => {
+        waiter = { resolve, reject }
+        flush()
+      })
+    },
+  }
+}
+
+function connectSocket(address: string, port: number) {
+  return new Promise<Socket>((resolve, reject) => {
+    const socket = new Socket()
+    socket.once('error', reject)
+    socket.connect(port, address, () => {
+      socket.off('error', reject)
+      resolve(socket)
+    })
+  })
+}
+
+export async function getJavaServerStatus(host: string, port: number, options: JavaPingOptions = {}): Promise<JavaStatus> {
+  const timeout = options.timeout ?? 5000
+  const onStep = options.onStep || (() => {})
+
+  let step: JavaCheckStep = 'dns'
+  let socket: Socket
+  let timer: NodeJS.Timeout
+
+  // 整个查询共用一个超时时间，超时时根据当前步骤给出原因
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      socket?.destroy()
+      reject(new JavaPingError(step, STEP_TIMEOUT_MESSAGES[step]))
+    }, timeout)
+  })
+
+  const run = async <T>(current: JavaCheckStep, task: () => Promise<T>) => {
+    step = current
+    try {
+      return await Promise.race([task(), expired])
+    } catch (error) {
+      throw error instanceof JavaPingError ? error : describeError(current, error)
+    }
+  }
+
+  try {
+    let startTime = Date.now()
+    let address = host
+    if (options.lookup || !isIP(host)) {
+      address = (await run('dns', () => (options.lookup || lookup)(host))).address
+    }
+    onStep({ step: 'dns', success: true, duration: Date.now() - startTime, detail: address })
+
+    startTime = Date.now()
+    socket = await run('connect', () => connectSocket(address, port))
+    socket.on('error', () => {})
+    onStep({ step: 'connect', success: true, duration: Date.now() - startTime })
+
+    const reader = createPacketReader(socket)
+
+    startTime = Date.now()
+    await run('handshake', () => new Promise<void>((resolve, reject) => {
+      const packets = Buffer.concat([createHandshake(host, port), createPacket(0x00)])
+      socket.write(packets, error => error ? reject(error) : resolve())
+    }))
+    onStep({ step: 'handshake', success: true, duration: Date.now() - startTime })
+
+    startTime = Date.now()
+    const status = await run('status', async () => {
+      const packet = await reader.next()
+      if (packet.id !== 0x00) throw new Error('无效的状态响应')
+      const length = readVarInt(packet.data)
+      if (!length) throw new Error('无效的状态响应')
+      const json = packet.data.subarray(length.size, length.size + length.value).toString('utf8')
+      try {
+        return JSON.parse(json)
+      } catch {
+        throw new Error('状态响应不是有效的 JSON')
+      }
+    })
+    const statusLatency = Date.now() - startTime
+    onStep({ step: 'status', success: true, duration: statusLatency, detail: status.version?.name })
+
+    // 部分服务器返回状态后会直接断开，Ping 失败时使用状态响应的耗时
+    let latency = statusLatency
+    try {
+      startTime = Date.now()
+      await run('ping', async () => {
+        const payload = Buffer.alloc(8)
+        payload.writeBigInt64BE(BigInt(startTime))
+        socket.write(createPacket(0x01, payload))
+        const packet = await reader.next()
+        if (packet.id !== 0x01) throw new Error('无效的 Pong 响应')
+      })
+      latency = Date.now() - startTime
+      onStep({ step: 'ping', success: true, duration: latency })
+    } catch (error) {
+      onStep({ step: 'ping', success: false, duration: Date.now() - startTime, detail: error.message })
+    }
+
+    return {
+      ...status,
+      online: true,
+      version: {
+        name: status.version?.name ?? '',
+        protocol: status.version?.protocol ?? 0,
+      },
+      players: {
+        online: status.players?.online ?? 0,
+        max: status.players?.max ?? 0,
+        sample: status.players?.sample,
+      },
+      description: status.description ?? '',
+      latency,
+    }
+  } finally {
+    clearTimeout(timer)
+    socket?.destroy()
+  }
+}
@@ -0,0 +1,132 @@
+import { Socket } from 'net'
+import { HostLookup } from './address'
+
+// 1.4 - 1.6 客户端使用的 MC|PingHost 插件消息，更早的服务器会忽略它
+const PING_HOST_CHANNEL = 'MC|PingHost'
+const PING_HOST_PROTOCOL = 74
+
+const ID_KICK = 0xff
+
+export interface LegacyStatus {
+  online: true
+  version: {
+    name: string
+    protocol: number
+  }
+  players: {
+    online: number
+    max: number
+  }
+  description: string
+}
+
+export interface LegacyPingOptions {
+  timeout?: number
+  lookup?: HostLookup
+}
+
+function writeUtf16String(text: string) {
+  const length = Buffer.alloc(2)
+  length.writeUInt16BE(text.length)
+  return Buffer.concat([length, Buffer.from(text, 'utf16le').swap16()])
+}
+
+export function createLegacyPing(host: string, port: number) {
+  const hostData = writeUtf16String(host)
+  const payload = Buffer.alloc(1 + hostData.length + 4)
+  payload.writeUInt8(PING_HOST_PROTOCOL, 0)
+  hostData.copy(payload, 1)
+  payload.writeInt32BE(port, 1 + hostData.length)
+
+  const payloadLength = Buffer.alloc(2)
+  payloadLength.writeUInt16BE(payload.length)
+  return Buffer.concat([Buffer.from([0xfe, 0x01, 0xfa]), writeUtf16String(PING_HOST_CHANNEL), payloadLength, payload])
+}
+
+export function parseLegacyResponse(packet: Buffer): LegacyStatus {
+  // 0xFF | 字符数(2) | UTF-16BE 字符串
+  if (packet.length < 3 || packet.readUInt8(0) !== ID_KICK) {
+    throw new Error('无效的旧版服务器响应')
+  }
+  const length = packet.readUInt16BE(1)
+  if (packet.length < 3 + length * 2) {
+    throw new Error('无效的旧版服务器响应')
+  }
+  const text = Buffer.from(packet.subarray(3, 3 + length * 2)).swap16().toString('utf16le')
+
+  const toNumber = (value: string) => {
+    const parsed = parseInt(value)
+    return isNaN(parsed) ? 0 : parsed
+  }
+
+  // 1.4 及以上：§1\0协议号\0版本\0MOTD\0在线人数\0最大人数
+  if (text.startsWith('§1\0')) {
+    const fields = text.split('\0')
+    return {
+      online: true,
+      version: { name: fields[2] || '', protocol: toNumber(fields[1]) },
+      players: { online: toNumber(fields[4]), max: toNumber(fields[5]) },
+      description: fields[3] || '',
+    }
+  }
+
+  // Beta 1.8 - 1.3：MOTD§在线人数§最大人数
+  const fields = text.split('§')
+  if (fields.length < 3) {
+    throw new Error('无效的旧版服务器响应')
+  }
+  return {
+    online: true,
+    version: { name: '1.3 或更早', protocol: 0 },
+    players: { online: toNumber(fields[fields.length - 2]), max: toNumber(fields[fields.length - 1]) },
+    description: fields.slice(0, -2).join('§'),
+  }
+}
+
+export async function getLegacyServerStatus(host: string, port: number, options: LegacyPingOptions = {}) {
+  const timeout = options.timeout ?? 5000
+  // 握手数据中仍然使用原始主机名
+  const address = options.lookup ? (await options.lookup(host)).address : host
+  const socket = new Socket()
+
+  return new Promise<LegacyStatus>((resolve, reject) => {
+    let buffer = Buffer.alloc(0)
+
+    const timer = setTimeout(() => {
+      finish(new Error('旧版服务器响应超时'))
+    }, timeout)
+
+    function finish(error: Error | null, status?: LegacyStatus) {
+      clearTimeout(timer)
+      socket.removeAllListeners()
+      socket.on('error', () => {})
+      socket.destroy()
+      if (error) {
+        reject(error)
+      } else {
+        resolve(status)
+      }
+    }
+
+    socket.on('error', (error) => finish(error))
+    socket.on('close', () => finish(new Error('连接被服务器关闭')))
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk])
+      if (buffer.readUInt8(0) !== ID_KICK) {
+        finish(new Error('无效的旧版服务器响应'))
+        return
+      }
+      // 等待接收完整的字符串
+      if (buffer.length < 3 || buffer.length < 3 + buffer.readUInt16BE(1) * 2) return
+      try {
+        finish(null, parseLegacyResponse(buffer))
+      } catch (error) {
+        finish(error)
+      }
+    })
+
+    socket.connect(port, address, () => {
+      socket.write(createLegacyPing(host, port))
+    })
+  })
+}
@@ -0,0 +1,107 @@
+import { HTTP } from 'koishi'
+import { PanelProvider, PanelTarget, PowerSignal, stripAnsi } from './panel'
+
+export interface McsmanagerOptions {
+  name: string
+  // 面板地址，例如 http://panel.example.com:23333
+  url: string
+}
+
+const INSTANCE_STATES: Record<number, string> = {
+  [-1]: 'busy',
+  0: 'offline',
+  1: 'stopping',
+  2: 'starting',
+  3: 'running',
+}
+
+const POWER_ROUTES: Record<PowerSignal, string> = {
+  start: 'open',
+  stop: 'stop',
+  restart: 'restart',
+  kill: 'kill',
+}
+
+// MCSManager 的实例由守护进程ID和实例UUID共同确定，实例ID写作 守护进程ID/实例UUID
+function parseMcsmanagerInstance(instanceId: string) {
+  const [daemonId, uuid, ...rest] = instanceId.split('/')
+  if (!daemonId || !uuid || rest.length > 0) {
+    throw new Error('MCSManager 的实例ID格式应为 守护进程ID/实例UUID')
+  }
+  return { daemonId, uuid }
+}
+
+export function createMcsmanagerPanel(http: HTTP, options: McsmanagerOptions): PanelProvider {
+  const baseUrl = options.url.replace(/\/+$/, '')
+
+  // 接口通过 apikey 参数鉴权，响应格式为 { status, data }
+  async function request(apiKey: string, path: string, params: Record<string, string> = {}) {
+    const response = await http.get(`${baseUrl}/api/${path}`, {
+      params: { ...params, apikey: apiKey },
+      headers: {
+        'X-Requested-With': 'XMLHttpRequest',
+        'Accept': 'application/json',
+      },
+    })
+    return response.data
+  }
+
+  function requestInstance(target: PanelTarget, path: string, params: Record<string, string> = {}) {
+    return request(target.apiKey, path, { ...parseMcsmanagerInstance(target.instanceId), ...params })
+  }
+
+  return {
+    name: options.name,
+
+    async validate(apiKey, instanceId) {
+      if (instanceId) {
+        await requestInstance({ apiKey, instanceId }, 'instance')
+      } else {
+        await request(apiKey, 'auth/')
+      }
+    },
+
+    // 面板不统计磁盘和网络用量，对应字段为 0
+    async getResources(target) {
+      const instance = await requestInstance(target, 'instance')
+      const process = instance.processInfo || {}
+      return {
+        state: INSTANCE_STATES[instance.status] ?? String(instance.status),
+        suspended: false,
+        cpu: process.cpu ?? 0,
+        memory: process.memory ?? 0,
+        disk: 0,
+        networkRx: 0,
+        networkTx: 0,
+        uptime: Math.floor((process.elapsed ?? 0) / 1000),
+      }
+    },
+
+    // 只有 Docker 实例会设置内存上限，单位为 MB
+    async getLimits(target) {
+      const instance = await requestInstance(target, 'instance')
+      return {
+        cpu: 0,
+        memory: (instance.config?.docker?.memory || 0) * 1024 * 1024,
+        disk: 0,
+      }
+    },
+
+    async sendPower(target, signal) {
+      await requestInstance(target, `protected_instance/${POWER_ROUTES[signal]}`)
+    },
+
+    async sendCommand(target, command) {
+      await requestInstance(target, 'protected_instance/command', { command })
+    },
+
+    async fetchLogs(target, lines) {
+      const output = await requestInstance(target, 'protected_instance/outputlog')
+      return String(output || '')
+        .split('\n')
+        .map(stripAnsi)
+        .filter(line => line.trim())
+        .slice(-lines)
+    },
+  }
+}
@@ -0,0 +1,286 @@
+export interface MotdStyle {
+  color?: string
+  bold?: boolean
+  italic?: boolean
+  underlined?: boolean
+  strikethrough?: boolean
+  obfuscated?: boolean
+}
+
+export interface MotdSpan extends MotdStyle {
+  text: string
+}
+
+// 组件树的节点，样式为继承父组件后的完整样式；文本中的 § 代码会把文本拆分为多个子节点
+export interface MotdNode extends MotdSpan {
+  children: MotdNode[]
+}
+
+export const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  dark_blue: '#0000aa',
+  dark_green: '#00aa00',
+  dark_aqua: '#00aaaa',
+  dark_red: '#aa0000',
+  dark_purple: '#aa00aa',
+  gold: '#ffaa00',
+  gray: '#aaaaaa',
+  dark_gray: '#555555',
+  blue: '#5555ff',
+  green: '#55ff55',
+  aqua: '#55ffff',
+  red: '#ff5555',
+  light_purple: '#ff55ff',
+  yellow: '#ffff55',
+  white: '#ffffff',
+}
+
+const LEGACY_COLORS: Record<string, string> = {
+  '0': NAMED_COLORS.black,
+  '1': NAMED_COLORS.dark_blue,
+  '2': NAMED_COLORS.dark_green,
+  '3': NAMED_COLORS.dark_aqua,
+  '4': NAMED_COLORS.dark_red,
+  '5': NAMED_COLORS.dark_purple,
+  '6': NAMED_COLORS.gold,
+  '7': NAMED_COLORS.gray,
+  '8': NAMED_COLORS.dark_gray,
+  '9': NAMED_COLORS.blue,
+  'a': NAMED_COLORS.green,
+  'b': NAMED_COLORS.aqua,
+  'c': NAMED_COLORS.red,
+  'd': NAMED_COLORS.light_purple,
+  'e': NAMED_COLORS.yellow,
+  'f': NAMED_COLORS.white,
+}
+
+const LEGACY_FORMATS: Record<string, keyof MotdStyle> = {
+  'k': 'obfuscated',
+  'l': 'bold',
+  'm': 'strikethrough',
+  'n': 'underlined',
+  'o': 'italic',
+}
+
+const STYLE_KEYS: (keyof MotdStyle)[] = ['color', 'bold', 'italic', 'underlined', 'strikethrough', 'obfuscated']
+
+// 嵌套过深的组件多半是恶意构造的，直接截断
+const MAX_DEPTH = 32
+
+// translate 的参数可以被引用多次，嵌套后展开次数会指数增长，因此限制展开的组件数和字符数之和
+const MAX_BUDGET = 16384
+
+interface ParseState {
+  budget: number
+}
+
+export function resolveColor(color: unknown): string | undefined {
+  if (typeof color !== 'string') return
+  const normalized = color.toLowerCase()
+  if (NAMED_COLORS[normalized]) return NAMED_COLORS[normalized]
+  if (/^#[0-9a-f]{6}$/.test(normalized)) return normalized
+}
+
+function pickStyle(source: MotdStyle): MotdStyle {
+  const style: MotdStyle = {}
+  for (const key of STYLE_KEYS) {
+    if (source[key] !== undefined) (style as any)[key] = source[key]
+  }
+  return style
+}
+
+function splitLegacyText(text: string, inherited: MotdStyle, state: ParseState) {
+  const nodes: MotdNode[] = []
+  const base = pickStyle(inherited)
+  let style: MotdStyle = { ...base }
+  let buffer = ''
+
+  const flush = () => {
+    if (buffer) nodes.push({ ...style, text: buffer, children: [] })
+    buffer = ''
+  }
+
+  state.budget -= text.length
+  if (state.budget < 0) return nodes
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char !== '§' || i + 1 >= text.length) {
+      buffer += char
+      continue
+    }
+
+    const code = text[i + 1].toLowerCase()
+    if (code === 'x') {
+      // §x§R§R§G§G§B§B 形式的十六进制颜色
+      const match = /^(?:§[0-9a-f]){6}/i.exec(text.slice(i + 2))
+      if (match) {
+        flush()
+        style = { ...base, color: '#' + match[0].replace(/§/g, '').toLowerCase() }
+        i += 1 + match[0].length
+        continue
+      }
+    }
+    if (LEGACY_COLORS[code]) {
+      flush()
+      // 颜色代码会清除之前的格式代码
+      style = { ...base, color: LEGACY_COLORS[code] }
+      i++
+    } else if (LEGACY_FORMATS[code]) {
+      flush()
+      style = { ...style, [LEGACY_FORMATS[code]]: true }
+      i++
+    } else if (code === 'r') {
+      flush()
+      style = { ...base }
+      i++
+    } else {
+      buffer += char
+    }
+  }
+  flush()
+  return nodes
+}
+
+function getOwnStyle(component: any): MotdStyle {
+  const style: MotdStyle = {}
+  const color = resolveColor(component.color)
+  if (color) style.color = color
+  for (const key of STYLE_KEYS) {
+    if (key !== 'color' && typeof component[key] === 'boolean') {
+      style[key] = component[key]
+    }
+  }
+  return style
+}
+
+function createNode(style: MotdStyle): MotdNode {
+  return { ...pickStyle(style), text: '', children: [] }
+}
+
+// 不含 § 代码的文本直接作为节点自身的文本
+function setNodeText(node: MotdNode, text: string, state: ParseState) {
+  const parts = splitLegacyText(text, node, state)
+  if (parts.length === 1 && isSameStyle(parts[0], node)) {
+    node.text = parts[0].text
+  } else {
+    node.children.push(...parts)
+  }
+}
+
+function appendTranslation(component: any, node: MotdNode, state: ParseState, depth: number) {
+  const template = typeof component.fallback === 'string' ? component.fallback : String(component.translate)
+  const args: unknown[] = Array.isArray(component.with) ? component.with : []
+  const pattern = /%(?:(\d+)\$)?([sd%])/g
+  let lastIndex = 0
+  let nextArg = 0
+  let match: RegExpExecArray
+
+  while ((match = pattern.exec(template)) && state.budget > 0) {
+    node.children.push(...splitLegacyText(template.slice(lastIndex, match.index), node, state))
+    lastIndex = pattern.lastIndex
+    if (match[2] === '%') {
+      node.children.push(...splitLegacyText('%', node, state))
+      continue
+    }
+    const index = match[1] ? parseInt(match[1]) - 1 : nextArg++
+    appendComponent(args[index] ?? '', node, node.children, state, depth + 1)
+  }
+  if (state.budget > 0) {
+    node.children.push(...splitLegacyText(template.slice(lastIndex), node, state))
+  }
+}
+
+function appendComponent(component: unknown, parent: MotdStyle, siblings: MotdNode[], state: ParseState, depth: number) {
+  if (component === null || component === undefined || depth > MAX_DEPTH || --state.budget < 0) return
+
+  if (typeof component !== 'object') {
+    const node = createNode(parent)
+    setNodeText(node, String(component), state)
+    siblings.push(node)
+    return
+  }
+
+  // 数组形式：第一个元素为父组件，其余元素继承它的样式
+  if (Array.isArray(component)) {
+    if (component.length === 0) return
+    const [first, ...rest] = component
+    const head = typeof first === 'object' && first !== null && !Array.isArray(first) ? first : { text: first }
+    appendComponent({ ...head, extra: [...(head.extra || []), ...rest] }, parent, siblings, state, depth + 1)
+    return
+  }
+
+  const data = component as any
+  const node = createNode({ ...parent, ...getOwnStyle(data) })
+  siblings.push(node)
+
+  if (data.text !== undefined) {
+    setNodeText(node, String(data.text), state)
+  } else if (data.translate !== undefined) {
+    appendTranslation(data, node, state, depth)
+  } else if (data.keybind !== undefined) {
+    setNodeText(node, String(data.keybind), state)
+  } else if (data[''] !== undefined) {
+    // NBT 序列化的组件会把文本放在空键下
+    setNodeText(node, String(data['']), state)
+  }
+
+  if (Array.isArray(data.extra)) {
+    for (const child of data.extra) {
+      appendComponent(child, node, node.children, state, depth + 1)
+    }
+  }
+}
+
+function isSameStyle(a: MotdStyle, b: MotdStyle) {
+  return STYLE_KEYS.every(key => (a[key] || undefined) === (b[key] || undefined))
+}
+
+function normalizeSpan(span: MotdSpan): MotdSpan {
+  const normalized: MotdSpan = { text: span.text }
+  for (const key of STYLE_KEYS) {
+    if (span[key]) (normalized as any)[key] = span[key]
+  }
+  return normalized
+}
+
+function flattenNodes(nodes: MotdNode[], spans: MotdSpan[]) {
+  for (const node of nodes) {
+    if (node.text) spans.push(node)
+    flattenNodes(node.children, spans)
+  }
+}
+
+// 返回保留组件结构的样式树，供需要自行排版的渲染器使用
+export function parseMotdTree(description: unknown): MotdNode {
+  // 部分服务端会把 JSON 组件作为字符串返回
+  if (typeof description === 'string' && /^\s*[{[]/.test(description)) {
+    try {
+      description = JSON.parse(description)
+    } catch {}
+  }
+
+  const root = createNode({})
+  appendComponent(description, {}, root.children, { budget: MAX_BUDGET }, 0)
+  return root
+}
+
+export function parseMotd(description: unknown): MotdSpan[] {
+  const spans: MotdSpan[] = []
+  flattenNodes([parseMotdTree(description)], spans)
+
+  const merged: MotdSpan[] = []
+  for (const span of spans) {
+    const last = merged[merged.length - 1]
+    if (last && isSameStyle(last, span)) {
+      last.text += span.text
+    } else {
+      merged.push(normalizeSpan(span))
+    }
+  }
+  return merged
+}
+
+export function toPlainText(spans: MotdSpan[]) {
+  return spans.map(span => span.text).join('')
+}
@@ -0,0 +1,62 @@
+export type PanelType = 'pterodactyl' | 'mcsmanager'
+
+export type PowerSignal = 'start' | 'stop' | 'restart' | 'kill'
+
+// 实例状态统一为 offline、starting、running、stopping，无法识别的状态原样返回
+export interface PanelResources {
+  state: string
+  suspended: boolean
+  // 相对单核的百分比
+  cpu: number
+  memory: number
+  disk: number
+  networkRx: number
+  networkTx: number
+  // 秒
+  uptime: number
+}
+
+// 内存和磁盘单位为字节，CPU 为相对单核的百分比，0 表示不限制
+export interface PanelLimits {
+  cpu: number
+  memory: number
+  disk: number
+}
+
+export interface PanelBackup {
+  id: string
+  name: string
+  bytes: number
+  createdAt: string
+  completedAt: string | null
+  successful: boolean
+  locked: boolean
+}
+
+export interface PanelTarget {
+  apiKey: string
+  instanceId: string
+}
+
+export interface PanelBackupSupport {
+  list(target: PanelTarget): Promise<PanelBackup[]>
+  create(target: PanelTarget, name?: string): Promise<PanelBackup>
+  restore(target: PanelTarget, id: string): Promise<void>
+}
+
+export interface PanelProvider {
+  name: string
+  // 指定实例时同时校验密钥能否访问该实例，鉴权失败时抛出面板返回的 HTTP 错误
+  validate(apiKey: string, instanceId?: string): Promise<void>
+  getResources(target: PanelTarget): Promise<PanelResources>
+  getLimits(target: PanelTarget): Promise<PanelLimits>
+  sendPower(target: PanelTarget, signal: PowerSignal): Promise<void>
+  sendCommand(target: PanelTarget, command: string): Promise<void>
+  fetchLogs(target: PanelTarget, lines: number): Promise<string[]>
+  // 面板不提供备份接口时为空
+  backups?: PanelBackupSupport
+}
+
+export function stripAnsi(text: string) {
+  return text.replace(/\u001b\[[0-9;?]*[A-Za-z]/g, '').replace(/\r/g, '')
+}
@@ -0,0 +1,161 @@
+import { HTTP } from 'koishi'
+import { PanelBackup, PanelProvider, PanelTarget, stripAnsi } from './panel'
+
+export interface PterodactylOptions {
+  name: string
+  // 客户端 API 地址，例如 https://panel.example.com/api/client
+  url: string
+}
+
+// 麦块联机基于 Pterodactyl，使用同一套客户端 API
+export function createPterodactylPanel(http: HTTP, options: PterodactylOptions): PanelProvider {
+  const baseUrl = options.url.replace(/\/+$/, '')
+
+  function getHeaders(apiKey: string) {
+    return {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    }
+  }
+
+  function getUrl(instanceId?: string, endpoint?: string) {
+    if (!instanceId) return baseUrl
+    // 实例 ID 由用户填写，编码后才能拼入路径，避免跳到其他 API
+    const url = `${baseUrl}/servers/${encodeURIComponent(instanceId)}`
+    return endpoint ? `${url}/${endpoint}` : url
+  }
+
+  async function request(method: 'GET' | 'POST', target: PanelTarget, endpoint: string, data?: any) {
+    const url = getUrl(target.instanceId, endpoint)
+    const headers = getHeaders(target.apiKey)
+    return method === 'GET'
+      ? http.get(url, { headers })
+      : http.post(url, data === undefined ? undefined : JSON.stringify(data), { headers })
+  }
+
+  function toBackup(attributes: any): PanelBackup {
+    return {
+      id: attributes.uuid,
+      name: attributes.name,
+      bytes: attributes.bytes,
+      createdAt: attributes.created_at,
+      completedAt: attributes.completed_at,
+      successful: attributes.is_successful,
+      locked: attributes.is_locked,
+    }
+  }
+
+  async function fetchLogs(target: PanelTarget, lines: number) {
+    const response = await request('GET', target, 'websocket')
+    const { token, socket: socketUrl } = response.data
+    const origin = new URL(baseUrl).origin
+
+    return new Promise<string[]>((resolve, reject) => {
+      const output: string[] = []
+      const socket = http.ws(socketUrl, { headers: { Origin: origin } })
+      let idleTimer: NodeJS.Timeout
+
+      // 历史日志会在短时间内连续推送，空闲一段时间后即可认为已接收完毕
+      const finish = () => {
+        clearTimeout(idleTimer)
+        clearTimeout(timeoutTimer)
+        socket.close()
+        resolve(output.slice(-lines))
+      }
+      const timeoutTimer = setTimeout(finish, 10000)
+
+      socket.addEventListener('open', () => {
+        socket.send(JSON.stringify({ event: 'auth', args: [token] }))
+      })
+      socket.addEventListener('message', (event) => {
+        let message: { event: string, args?: string[] }
+        try {
+          message = JSON.parse(String(event.data))
+        } catch {
+          return
+        }
+        if (message.event === 'auth success') {
+          socket.send(JSON.stringify({ event: 'send logs', args: [null] }))
+          idleTimer = setTimeout(finish, 3000)
+        } else if (message.event === 'console output') {
+          for (const line of message.args || []) {
+            output.push(stripAnsi(line))
+          }
+          clearTimeout(idleTimer)
+          idleTimer = setTimeout(finish, 1000)
+        } else if (message.event === 'jwt error' || message.event === 'token expired') {
+          clearTimeout(idleTimer)
+          clearTimeout(timeoutTimer)
+          socket.close()
+          reject(new Error('控制台连接鉴权失败'))
+        }
+      })
+      socket.addEventListener('error', () => {
+        clearTimeout(idleTimer)
+        clearTimeout(timeoutTimer)
+        reject(new Error('无法连接到服务器控制台'))
+      })
+    })
+  }
+
+  return {
+    name: options.name,
+
+    async validate(apiKey, instanceId) {
+      await http.get(getUrl(instanceId), { headers: getHeaders(apiKey) })
+    },
+
+    async getResources(target) {
+      const { attributes } = await request('GET', target, 'resources')
+      const resources = attributes.resources || {}
+      return {
+        state: attributes.current_state,
+        suspended: !!attributes.is_suspended,
+        cpu: resources.cpu_absolute ?? 0,
+        memory: resources.memory_bytes ?? 0,
+        disk: resources.disk_bytes ?? 0,
+        networkRx: resources.network_rx_bytes ?? 0,
+        networkTx: resources.network_tx_bytes ?? 0,
+        uptime: resources.uptime ?? 0,
+      }
+    },
+
+    // 面板返回的内存和磁盘上限单位为 MB
+    async getLimits(target) {
+      const response = await request('GET', target, '')
+      const limits = response.attributes?.limits || {}
+      return {
+        cpu: limits.cpu || 0,
+        memory: (limits.memory || 0) * 1024 * 1024,
+        disk: (limits.disk || 0) * 1024 * 1024,
+      }
+    },
+
+    async sendPower(target, signal) {
+      await request('POST', target, 'power', { signal })
+    },
+
+    async sendCommand(target, command) {
+      await request('POST', target, 'command', { command })
+    },
+
+    fetchLogs,
+
+    backups: {
+      async list(target) {
+        const response = await request('GET', target, 'backups')
+        return (response.data || []).map(item => toBackup(item.attributes))
+      },
+
+      async create(target, name) {
+        const response = await request('POST', target, 'backups', name ? { name } : {})
+        return toBackup(response.attributes)
+      },
+
+      async restore(target, id) {
+        await request('POST', target, `backups/${encodeURIComponent(id)}/restore`, { truncate: false })
+      },
+    },
+  }
+}
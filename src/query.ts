@@ -0,0 +1,182 @@
+import { createSocket } from 'dgram'
+import { lookup } from 'dns/promises'
+import { randomBytes } from 'crypto'
+import { HostLookup } from './address'
+
+const MAGIC = Buffer.from([0xfe, 0xfd])
+
+const TYPE_HANDSHAKE = 0x09
+const TYPE_STAT = 0x00
+
+// 完整状态响应中键值对和玩家列表前的固定填充
+const KEY_VALUE_PADDING = 11
+const PLAYER_PADDING = 10
+
+export interface QueryStatus {
+  online: true
+  description: string
+  gametype: string
+  version: {
+    name: string
+    protocol: number
+  }
+  software: string
+  plugins: string[]
+  map: string
+  players: {
+    online: number
+    max: number
+    list: string[]
+  }
+  hostPort?: number
+  hostIp?: string
+}
+
+export interface QueryOptions {
+  timeout?: number
+  lookup?: HostLookup
+}
+
+export function createHandshakeRequest(sessionId: number) {
+  const packet = Buffer.alloc(7)
+  MAGIC.copy(packet, 0)
+  packet.writeUInt8(TYPE_HANDSHAKE, 2)
+  packet.writeInt32BE(sessionId, 3)
+  return packet
+}
+
+export function createFullStatRequest(sessionId: number, challengeToken: number) {
+  // 末尾 4 字节填充表示请求完整状态
+  const packet = Buffer.alloc(15)
+  MAGIC.copy(packet, 0)
+  packet.writeUInt8(TYPE_STAT, 2)
+  packet.writeInt32BE(sessionId, 3)
+  packet.writeInt32BE(challengeToken | 0, 7)
+  return packet
+}
+
+export function parseHandshakeResponse(packet: Buffer) {
+  const token = parseInt(packet.subarray(5).toString('ascii').split('\0')[0])
+  if (isNaN(token)) {
+    throw new Error('无效的 Query 握手响应')
+  }
+  return token
+}
+
+function readString(packet: Buffer, offset: number) {
+  const end = packet.indexOf(0, offset)
+  if (end === -1) return { value: packet.subarray(offset).toString('utf8'), offset: packet.length }
+  return { value: packet.subarray(offset, end).toString('utf8'), offset: end + 1 }
+}
+
+// plugins 字段格式：服务端名称: 插件1; 插件2
+function parsePlugins(text: string) {
+  const index = text.indexOf(':')
+  if (index === -1) return { software: text.trim(), plugins: [] }
+  return {
+    software: text.slice(0, index).trim(),
+    plugins: text.slice(index + 1).split(';').map(plugin => plugin.trim()).filter(Boolean),
+  }
+}
+
+export function parseFullStatResponse(packet: Buffer): QueryStatus {
+  if (packet.length < 5 + KEY_VALUE_PADDING || packet.readUInt8(0) !== TYPE_STAT) {
+    throw new Error('无效的 Query 响应')
+  }
+
+  const values: Record<string, string> = {}
+  let offset = 5 + KEY_VALUE_PADDING
+  while (offset < packet.length) {
+    const key = readString(packet, offset)
+    offset = key.offset
+    if (!key.value) break
+    const value = readString(packet, offset)
+    offset = value.offset
+    values[key.value] = value.value
+  }
+
+  const players: string[] = []
+  offset += PLAYER_PADDING
+  while (offset < packet.length) {
+    const name = readString(packet, offset)
+    offset = name.offset
+    if (!name.value) break
+    players.push(name.value)
+  }
+
+  const { software, plugins } = parsePlugins(values.plugins || '')
+  const toNumber = (value: string) => {
+    const parsed = parseInt(value)
+    return isNaN(parsed) ? undefined : parsed
+  }
+
+  return {
+    online: true,
+    description: values.hostname || '',
+    gametype: values.gametype || '',
+    version: { name: values.version || '', protocol: 0 },
+    software,
+    plugins,
+    map: values.map || '',
+    players: {
+      online: toNumber(values.numplayers) ?? players.length,
+      max: toNumber(values.maxplayers) ?? 0,
+      list: players,
+    },
+    hostPort: toNumber(values.hostport),
+    hostIp: values.hostip,
+  }
+}
+
+export async function getQueryServerStatus(host: string, port: number, options: QueryOptions = {}) {
+  const timeout = options.timeout ?? 5000
+  const { address, family } = await (options.lookup || lookup)(host)
+  const socket = createSocket(family === 6 ? 'udp6' : 'udp4')
+  // 会话ID每个字节只使用低 4 位
+  const sessionId = randomBytes(4).readInt32BE() & 0x0f0f0f0f
+
+  return new Promise<QueryStatus>((resolve, reject) => {
+    // 握手和状态请求的 send 回调都可能在结束后才触发
+    let closed = false
+    const timer = setTimeout(() => {
+      finish(new Error('Query 响应超时，请确认服务器已开启 enable-query'))
+    }, timeout)
+
+    function finish(error: Error | null, status?: QueryStatus) {
+      if (closed) return
+      closed = true
+      clearTimeout(timer)
+      socket.removeAllListeners()
+      socket.close()
+      if (error) {
+        reject(error)
+      } else {
+        resolve(status)
+      }
+    }
+
+    function send(packet: Buffer) {
+      socket.send(packet, port, address, (error) => {
+        if (error) finish(error)
+      })
+    }
+
+    socket.on('error', (error) => finish(error))
+    socket.on('message', (message) => {
+      // 忽略其他会话的数据包
+      if (message.length < 5 || message.readInt32BE(1) !== sessionId) return
+      try {
+        const type = message.readUInt8(0)
+        if (type === TYPE_HANDSHAKE) {
+          send(createFullStatRequest(sessionId, parseHandshakeResponse(message)))
+        } else if (type === TYPE_STAT) {
+          finish(null, parseFullStatResponse(message))
+        }
+      } catch (error) {
+        finish(error)
+      }
+    })
+
+    send(createHandshakeRequest(sessionId))
+  })
+}
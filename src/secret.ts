@@ -0,0 +1,71 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+
+const PREFIX = 'enc:v1:'
+
+function deriveKey(secret: string) {
+  return createHash('sha256').update(secret, 'utf8').digest()
+}
+
+export function isEncrypted(value: string) {
+  return typeof value === 'string' && value.startsWith(PREFIX)
+}
+
+export function encryptSecret(plaintext: string, secret: string) {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(secret), iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  const tag = cipher.getAuthTag()
+  return PREFIX + [iv, tag, ciphertext].map(buffer => buffer.toString('base64')).join(':')
+}
+
+export function decryptSecret(value: string, secret: string) {
+  // 未加密的旧数据原样返回
+  if (!isEncrypted(value)) return value
+  if (!secret) {
+    throw new Error('API密钥已加密存储，但未配置 apiKeySecret')
+  }
+
+  const [iv, tag, ciphertext] = value.slice(PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'))
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', deriveKey(secret), iv)
+    decipher.setAuthTag(tag)
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+  } catch {
+    throw new Error('API密钥解密失败，请检查 apiKeySecret 配置是否被修改，或重新绑定API密钥')
+  }
+}
+
+// 读取保存在文件中的密钥，文件不存在时生成新的密钥，只有当前用户可以读写
+export async function loadOrCreateSecret(file: string) {
+  try {
+    const secret = (await readFile(file, 'utf8')).trim()
+    if (secret) return secret
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error
+  }
+
+  const secret = randomBytes(32).toString('base64')
+  await mkdir(dirname(file), { recursive: true })
+  await writeFile(file, secret, { mode: 0o600 })
+  return secret
+}
+
+export function getFingerprint(plaintext: string) {
+  return createHash('sha256').update(plaintext, 'utf8').digest('hex').slice(0, 12)
+}
+
+export function formatFingerprint(fingerprint: string) {
+  if (!fingerprint) return '未知'
+  return fingerprint.match(/.{1,4}/g).join(':')
+}
+
+// 用于只需要比对、不需要还原的令牌
+export function hashSecret(plaintext: string) {
+  return createHash('sha256').update(plaintext, 'utf8').digest('hex')
+}
+
+export function createToken(prefix: string) {
+  return prefix + randomBytes(24).toString('hex')
+}
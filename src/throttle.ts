@@ -0,0 +1,83 @@
+const MAX_CACHE_SIZE = 1000
+
+// 缓存查询结果，并合并同一时间对同一目标发起的重复请求
+export function createRequestCache<T>(ttl: number) {
+  const cache = new Map<string, { expires: number, value: T }>()
+  const pending = new Map<string, Promise<T>>()
+
+  function store(key: string, value: T) {
+    if (ttl <= 0) return
+    cache.delete(key)
+    if (cache.size >= MAX_CACHE_SIZE) {
+      cache.delete(cache.keys().next().value)
+    }
+    cache.set(key, { expires: Date.now() + ttl, value })
+  }
+
+  // fresh 为 true 时忽略缓存，但仍会复用进行中的请求
+  return function request(key: string, task: () => Promise<T>, fresh = false): Promise<T> {
+    const cached = cache.get(key)
+    if (!fresh && cached && cached.expires > Date.now()) {
+      return Promise.resolve(cached.value)
+    }
+
+    const inflight = pending.get(key)
+    if (inflight) return inflight
+
+    const promise = task().then((value) => {
+      store(key, value)
+      return value
+    }).finally(() => {
+      pending.delete(key)
+    })
+    pending.set(key, promise)
+    return promise
+  }
+}
+
+export function createLimiter(concurrency: number) {
+  let active = 0
+  const queue: (() => void)[] = []
+
+  return async function limit<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= concurrency) {
+      // 名额由结束的任务直接转交，避免新任务插队
+      await new Promise<void>(resolve => queue.push(resolve))
+    } else {
+      active++
+    }
+    try {
+      return await task()
+    } finally {
+      const next = queue.shift()
+      if (next) {
+        next()
+      } else {
+        active--
+      }
+    }
+  }
+}
+
+export function createCooldown() {
+  const expires = new Map<string, number>()
+
+  return {
+    // 返回剩余冷却秒数，不在冷却中时返回 0
+    remaining(key: string) {
+      const time = expires.get(key)
+      if (!time || time <= Date.now()) return 0
+      return Math.ceil((time - Date.now()) / 1000)
+    },
+    start(key: string, seconds: number) {
+      if (seconds <= 0) return
+      if (expires.size >= MAX_CACHE_SIZE) {
+        const now = Date.now()
+        for (const [item, time] of expires) {
+          if (time <= now) expires.delete(item)
+        }
+      }
+      expires.set(key, Date.now() + seconds * 1000)
+    },
+  }
+}
@@ -0,0 +1,110 @@
+import { dump, load } from 'js-yaml'
+import { formatAddress, parseServerAddress } from './address'
+
+export type ExportFormat = 'json' | 'yaml'
+
+// 导出文件不包含API密钥，也不包含密钥名称，导入到其他群后需要重新指定
+export interface ServerExportEntry {
+  name: string
+  host: string
+  port: number
+  // 为 false 时 Java 版使用默认端口会查询 SRV 记录
+  explicitPort: boolean
+  type: 'java' | 'bedrock'
+  protocol: 'auto' | 'legacy' | 'query'
+  timeout: number
+  // 面板ID，为空时使用麦块联机
+  panel: string
+  instance: string
+  active: boolean
+}
+
+export interface ServerExportFile {
+  version: number
+  servers: ServerExportEntry[]
+}
+
+export const EXPORT_VERSION = 1
+
+export const MAX_IMPORT_SERVERS = 100
+
+const ENTRY_FIELDS = ['name', 'host', 'port', 'explicitPort', 'type', 'protocol', 'timeout', 'panel', 'instance', 'active']
+
+export function serializeServers(servers: ServerExportEntry[], format: ExportFormat) {
+  const file: ServerExportFile = { version: EXPORT_VERSION, servers }
+  return format === 'yaml' ? dump(file, { lineWidth: -1 }) : JSON.stringify(file, null, 2) + '\n'
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function validateEntry(value: unknown): ServerExportEntry | string {
+  if (!isObject(value)) return '必须为对象'
+
+  const unknown = Object.keys(value).filter(key => !ENTRY_FIELDS.includes(key))
+  if (unknown.length > 0) return `不支持的字段 ${unknown.join('、')}`
+
+  const { name = '', host, port, explicitPort = false, type, protocol = 'auto', timeout = 5, panel = '', instance = '', active = true } = value
+  if (typeof name !== 'string') return 'name 必须为字符串'
+  if (typeof host !== 'string' || !host.trim()) return 'host 必须为非空字符串'
+  if (typeof port !== 'number' || !Number.isInteger(port) || port < 1 || port > 65535) return 'port 必须为 1-65535 的整数'
+  if (typeof explicitPort !== 'boolean') return 'explicitPort 必须为 true 或 false'
+  if (type !== 'java' && type !== 'bedrock') return 'type 只能为 java 或 bedrock'
+  if (protocol !== 'auto' && protocol !== 'legacy' && protocol !== 'query') return 'protocol 只能为 auto、legacy 或 query'
+  if (type === 'bedrock' && protocol !== 'auto') return '基岩版服务器不支持设置查询协议'
+  if (typeof timeout !== 'number' || !(timeout > 0)) return 'timeout 必须为正数'
+  if (typeof panel !== 'string') return 'panel 必须为字符串'
+  if (typeof instance !== 'string') return 'instance 必须为字符串'
+  if (typeof active !== 'boolean') return 'active 必须为 true 或 false'
+
+  // 与绑定指令使用相同的地址规范化，避免同一地址因写法不同而绕过冲突检查
+  let address: { host: string, port: number }
+  try {
+    address = parseServerAddress(formatAddress({ host: host.trim(), port }), port)
+  } catch (error) {
+    return error.message
+  }
+
+  return { name, host: address.host, port: address.port, explicitPort, type, protocol, timeout, panel: panel.trim(), instance: instance.trim(), active }
+}
+
+// 文件本身无法解析时抛出错误，单个条目的问题以「第N项：原因」的形式返回
+export function parseServerFile(text: string): { servers: ServerExportEntry[], errors: string[] } {
+  let data: unknown
+  try {
+    // YAML 兼容 JSON，两种格式都用同一个解析器读取
+    data = load(text)
+  } catch {
+    throw new Error('文件不是有效的 JSON 或 YAML')
+  }
+
+  if (!isObject(data) || !Array.isArray(data.servers)) {
+    throw new Error('文件格式不正确，缺少 servers 列表')
+  }
+  if (data.version !== EXPORT_VERSION) {
+    throw new Error(`文件缺少版本号或版本不受支持，当前版本为 ${EXPORT_VERSION}`)
+  }
+  if (data.servers.length > MAX_IMPORT_SERVERS) {
+    throw new Error(`一次最多导入 ${MAX_IMPORT_SERVERS} 台服务器`)
+  }
+
+  const servers: ServerExportEntry[] = []
+  const errors: string[] = []
+  const addresses = new Map<string, number>()
+  data.servers.forEach((value, index) => {
+    const result = validateEntry(value)
+    if (typeof result === 'string') {
+      errors.push(`第${index + 1}项：${result}`)
+      return
+    }
+    const address = formatAddress(result)
+    if (addresses.has(address)) {
+      errors.push(`第${index + 1}项：地址 ${address} 与第${addresses.get(address)}项重复`)
+      return
+    }
+    addresses.set(address, index + 1)
+    servers.push(result)
+  })
+  return { servers, errors }
+}
@@ -0,0 +1,118 @@
+import { SrvRecord } from 'dns'
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createSrvLookup, formatAddress, parseServerAddress } from '../src/address'
+
+function createError(code: string) {
+  return Object.assign(new Error(code), { code })
+}
+
+function createResolver(records: Record<string, SrvRecord[] | Error>) {
+  const calls: string[] = []
+  const resolver = async (hostname: string) => {
+    calls.push(hostname)
+    const result = records[hostname] ?? createError('ENOTFOUND')
+    if (result instanceof Error) throw result
+    return result
+  }
+  return { resolver, calls }
+}
+
+describe('address', () => {
+  describe('parseServerAddress', () => {
+    it('uses the default port for bare domains', () => {
+      assert.deepEqual(parseServerAddress('play.example.com', 25565), { host: 'play.example.com', port: 25565, explicitPort: false })
+      assert.deepEqual(parseServerAddress('  mc.example.com  ', 19132), { host: 'mc.example.com', port: 19132, explicitPort: false })
+    })
+
+    it('parses host:port', () => {
+      assert.deepEqual(parseServerAddress('play.example.com:25566', 25565), { host: 'play.example.com', port: 25566, explicitPort: true })
+      assert.deepEqual(parseServerAddress('127.0.0.1:25565', 25565), { host: '127.0.0.1', port: 25565, explicitPort: true })
+    })
+
+    it('parses IPv6 literals without a port', () => {
+      assert.deepEqual(parseServerAddress('2001:db8::1', 25565), { host: '2001:db8::1', port: 25565, explicitPort: false })
+      assert.deepEqual(parseServerAddress('::1', 19132), { host: '::1', port: 19132, explicitPort: false })
+    })
+
+    it('parses bracketed IPv6 addresses', () => {
+      assert.deepEqual(parseServerAddress('[2001:db8::1]:25570', 25565), { host: '2001:db8::1', port: 25570, explicitPort: true })
+      assert.deepEqual(parseServerAddress('[::1]', 25565), { host: '::1', port: 25565, explicitPort: false })
+    })
+
+    it('rejects invalid ports', () => {
+      for (const input of ['example.com:0', 'example.com:65536', 'example.com:abc', 'example.com:', '[::1]:-1', 'example.com:25565.5']) {
+        assert.throws(() => parseServerAddress(input, 25565), /端口号无效/, input)
+      }
+    })
+
+    it('rejects malformed addresses', () => {
+      for (const input of ['', ':25565', '[example.com]:25565', '[::1', 'a:b:c', '[::1]x']) {
+        assert.throws(() => parseServerAddress(input, 25565), /服务器地址格式无效/, input)
+      }
+    })
+
+    it('formats IPv6 addresses with brackets', () => {
+      assert.equal(formatAddress({ host: '2001:db8::1', port: 25565 }), '[2001:db8::1]:25565')
+      assert.equal(formatAddress({ host: 'play.example.com', port: 25565 }), 'play.example.com:25565')
+    })
+  })
+
+  describe('createSrvLookup', () => {
+    it('returns the record with the lowest priority and highest weight', async () => {
+      const { resolver, calls } = createResolver({
+        '_minecraft._tcp.play.example.com': [
+          { name: 'backup.example.com', port: 25567, priority: 20, weight: 100 },
+          { name: 'light.example.com.', port: 25566, priority: 10, weight: 1 },
+          { name: 'main.example.com.', port: 25565, priority: 10, weight: 50 },
+        ],
+      })
+      const lookupSrv = createSrvLookup(resolver)
+      assert.deepEqual(await lookupSrv('Play.Example.com'), { host: 'main.example.com', port: 25565 })
+      assert.deepEqual(calls, ['_minecraft._tcp.play.example.com'])
+    })
+
+    it('returns null when there is no record', async () => {
+      const { resolver } = createResolver({
+        '_minecraft._tcp.nodata.example.com': createError('ENODATA'),
+      })
+      const lookupSrv = createSrvLookup(resolver)
+      assert.equal(await lookupSrv('nodata.example.com'), null)
+      assert.equal(await lookupSrv('missing.example.com'), null)
+    })
+
+    it('skips IP addresses', async () => {
+      const { resolver, calls } = createResolver({})
+      const lookupSrv = createSrvLookup(resolver)
+      assert.equal(await lookupSrv('203.0.113.10'), null)
+      assert.equal(await lookupSrv('2001:db8::1'), null)
+      assert.deepEqual(calls, [])
+    })
+
+    it('caches hits and misses until they expire', async () => {
+      const { resolver, calls } = createResolver({
+        '_minecraft._tcp.play.example.com': [{ name: 'main.example.com', port: 25570, priority: 0, weight: 0 }],
+      })
+      const lookupSrv = createSrvLookup(resolver, 50)
+      await lookupSrv('play.example.com')
+      await lookupSrv('play.example.com')
+      await lookupSrv('missing.example.com')
+      await lookupSrv('missing.example.com')
+      assert.equal(calls.length, 2)
+
+      await new Promise(resolve => setTimeout(resolve, 60))
+      assert.deepEqual(await lookupSrv('play.example.com'), { host: 'main.example.com', port: 25570 })
+      assert.equal(calls.length, 3)
+    })
+
+    it('does not cache temporary failures', async () => {
+      const { resolver, calls } = createResolver({
+        '_minecraft._tcp.flaky.example.com': createError('ETIMEOUT'),
+      })
+      const lookupSrv = createSrvLookup(resolver)
+      assert.equal(await lookupSrv('flaky.example.com'), null)
+      assert.equal(await lookupSrv('flaky.example.com'), null)
+      assert.equal(calls.length, 2)
+    })
+  })
+})
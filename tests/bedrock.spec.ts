@@ -0,0 +1,85 @@
+import { createSocket, Socket } from 'dgram'
+import { AddressInfo } from 'net'
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { getBedrockServerStatus, parseUnconnectedPong } from '../src/bedrock'
+
+const MAGIC = Buffer.from('00ffff00fefefefefdfdfdfd12345678', 'hex')
+
+function createPong(payload: string) {
+  const body = Buffer.from(payload, 'utf8')
+  const packet = Buffer.alloc(35 + body.length)
+  packet.writeUInt8(0x1c, 0)
+  packet.writeBigInt64BE(0n, 1)
+  packet.writeBigInt64BE(1n, 9)
+  MAGIC.copy(packet, 17)
+  packet.writeUInt16BE(body.length, 33)
+  body.copy(packet, 35)
+  return packet
+}
+
+function listen(onMessage: (socket: Socket, message: Buffer, port: number, address: string) => void) {
+  const socket = createSocket('udp4')
+  socket.on('message', (message, remote) => onMessage(socket, message, remote.port, remote.address))
+  return new Promise<Socket>(resolve => socket.bind(0, '127.0.0.1', () => resolve(socket)))
+}
+
+const PAYLOAD = 'MCPE;Dedicated Server;712;1.21.20;3;10;13253860892328930865;Bedrock level;Survival;1;19132;19133;'
+
+describe('bedrock', () => {
+  describe('parseUnconnectedPong', () => {
+    it('parses the advertised server info', () => {
+      const status = parseUnconnectedPong(createPong(PAYLOAD))
+      assert.equal(status.edition, 'MCPE')
+      assert.equal(status.description, 'Dedicated Server')
+      assert.deepEqual(status.version, { name: '1.21.20', protocol: 712 })
+      assert.deepEqual(status.players, { online: 3, max: 10 })
+      assert.equal(status.levelName, 'Bedrock level')
+      assert.equal(status.gamemode, 'Survival')
+      assert.equal(status.portV4, 19132)
+      assert.equal(status.portV6, 19133)
+    })
+
+    it('rejects packets without the offline magic', () => {
+      const packet = createPong(PAYLOAD)
+      packet.fill(0, 17, 33)
+      assert.throws(() => parseUnconnectedPong(packet), /无效的Bedrock服务器响应/)
+    })
+
+    it('rejects payloads with too few fields', () => {
+      assert.throws(() => parseUnconnectedPong(createPong('MCPE;Server;712')), /无效的Bedrock服务器响应/)
+    })
+  })
+
+  describe('getBedrockServerStatus', () => {
+    let responder: Socket
+    let silent: Socket
+
+    before(async () => {
+      responder = await listen((socket, message, port, address) => {
+        if (message.readUInt8(0) !== 0x01) return
+        // 先发送一个无关的数据包，客户端应当忽略它
+        socket.send(Buffer.from([0x00]), port, address)
+        socket.send(createPong(PAYLOAD), port, address)
+      })
+      silent = await listen(() => {})
+    })
+
+    after(() => {
+      responder.close()
+      silent.close()
+    })
+
+    it('queries a local responder', async () => {
+      const { port } = responder.address() as AddressInfo
+      const status = await getBedrockServerStatus('127.0.0.1', port, { timeout: 2000 })
+      assert.equal(status.description, 'Dedicated Server')
+      assert.deepEqual(status.players, { online: 3, max: 10 })
+    })
+
+    it('times out when the server does not answer', async () => {
+      const { port } = silent.address() as AddressInfo
+      await assert.rejects(getBedrockServerStatus('127.0.0.1', port, { timeout: 200 }), /响应超时/)
+    })
+  })
+})
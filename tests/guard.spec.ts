@@ -0,0 +1,69 @@
+import { AddressInfo, createServer, Server } from 'net'
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createAddressGuard, isPrivateAddress } from '../src/guard'
+import { getJavaServerStatus } from '../src/java'
+
+// 第一次解析返回公网地址，之后返回回环地址，模拟 DNS 重绑定
+function createRebindingLookup() {
+  let count = 0
+  return async (host: string) => count++ === 0 ? ['203.0.113.10'] : ['127.0.0.1']
+}
+
+describe('guard', () => {
+  it('detects private addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '192.168.1.1', '169.254.0.1', '::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      assert.equal(isPrivateAddress(address), true, address)
+    }
+    for (const address of ['203.0.113.10', '2001:db8::1', '8.8.8.8']) {
+      assert.equal(isPrivateAddress(address), false, address)
+    }
+  })
+
+  it('checks ports, blocked hosts and resolved addresses', async () => {
+    const guard = createAddressGuard({
+      blockPrivate: true,
+      allowedPorts: ['25560-25580'],
+      blockedHosts: ['*.blocked.example', '198.51.100.0/24'],
+      lookup: async host => host === 'private.example' ? ['10.0.0.5'] : ['198.51.100.7'],
+    })
+    assert.match(await guard.checkAddress(['play.example'], 6379), /端口 6379/)
+    assert.match(await guard.checkAddress(['mc.blocked.example'], 25565), /禁止查询/)
+    assert.match(await guard.checkAddress(['play.example'], 25565), /禁止查询/)
+    assert.match(await guard.checkAddress(['private.example'], 25565), /内网/)
+    assert.equal(await guard.checkAddress(['203.0.113.10'], 25565), null)
+  })
+
+  it('re-checks the address used for the connection', async () => {
+    const guard = createAddressGuard({ blockPrivate: true, allowedPorts: [], blockedHosts: [], lookup: createRebindingLookup() })
+    assert.equal(await guard.checkAddress(['rebind.example'], 25565), null)
+    await assert.rejects(guard.lookupAddress('rebind.example'), /内网/)
+    await assert.rejects(guard.lookupAddress('127.0.0.1'), /内网/)
+    assert.deepEqual(await guard.lookupAddress('203.0.113.10'), { address: '203.0.113.10', family: 4 })
+  })
+
+  describe('with a local server', () => {
+    let server: Server
+    let connections = 0
+
+    before(async () => {
+      server = createServer((socket) => {
+        connections++
+        socket.destroy()
+      })
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    })
+
+    after(() => {
+      server.close()
+    })
+
+    it('does not connect after the domain is rebound', async () => {
+      const guard = createAddressGuard({ blockPrivate: true, allowedPorts: [], blockedHosts: [], lookup: createRebindingLookup() })
+      const { port } = server.address() as AddressInfo
+      assert.equal(await guard.checkAddress(['rebind.example'], port), null)
+      await assert.rejects(getJavaServerStatus('rebind.example', port, { timeout: 1000, lookup: guard.lookupAddress }), /内网/)
+      assert.equal(connections, 0)
+    })
+  })
+})
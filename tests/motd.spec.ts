@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseMotd, parseMotdTree, toPlainText } from '../src/motd'
+
+describe('motd', () => {
+  it('parses legacy section codes', () => {
+    // Hypixel 的状态响应只使用 § 代码
+    const spans = parseMotd('§aHypixel Network §c[1.8-1.21]\n§6§lSKYBLOCK §7- §b§lMINING FIESTA')
+    assert.deepEqual(spans.slice(0, 3), [
+      { text: 'Hypixel Network ', color: '#55ff55' },
+      { text: '[1.8-1.21]\n', color: '#ff5555' },
+      { text: 'SKYBLOCK ', color: '#ffaa00', bold: true },
+    ])
+    assert.equal(toPlainText(spans), 'Hypixel Network [1.8-1.21]\nSKYBLOCK - MINING FIESTA')
+  })
+
+  it('flattens extra arrays with inherited styles', () => {
+    // Paper 序列化 MOTD 时文本全部放在 extra 中
+    const spans = parseMotd({
+      extra: [
+        { bold: true, color: 'gold', text: 'Survival ' },
+        { color: 'gray', extra: [{ italic: true, text: 'since 2019' }], text: '' },
+        { text: '\n' },
+        { color: 'green', text: 'Now on 1.21!' },
+      ],
+      text: '',
+    })
+    assert.deepEqual(spans, [
+      { text: 'Survival ', color: '#ffaa00', bold: true },
+      { text: 'since 2019', color: '#aaaaaa', italic: true },
+      { text: '\n' },
+      { text: 'Now on 1.21!', color: '#55ff55' },
+    ])
+  })
+
+  it('treats top-level arrays as a parent with children', () => {
+    const spans = parseMotd([{ text: 'A', color: 'red' }, 'B', { text: 'C', color: 'blue' }])
+    assert.deepEqual(spans, [
+      { text: 'AB', color: '#ff5555' },
+      { text: 'C', color: '#5555ff' },
+    ])
+  })
+
+  it('expands translate components with positional arguments', () => {
+    const spans = parseMotd({
+      translate: '%2$s on %1$s, %s%%',
+      with: [{ text: 'Lobby', color: 'aqua' }, 'Steve'],
+    })
+    assert.equal(toPlainText(spans), 'Steve on Lobby, Lobby%')
+    assert.deepEqual(spans[1], { text: 'Lobby', color: '#55ffff' })
+  })
+
+  it('prefers the fallback of translate components', () => {
+    const spans = parseMotd({ translate: 'custom.server.motd', fallback: 'Welcome, %s', with: ['Alex'] })
+    assert.equal(toPlainText(spans), 'Welcome, Alex')
+  })
+
+  it('keeps hex colors from chat components', () => {
+    // Velocity 和 MiniMessage 的渐变文本会为每个字符设置十六进制颜色
+    const spans = parseMotd({
+      extra: [
+        { color: '#55CDFC', text: 'S' },
+        { color: '#F7A8B8', text: 'k' },
+        { color: 'not-a-color', text: 'y' },
+      ],
+      text: '',
+    })
+    assert.deepEqual(spans, [
+      { text: 'S', color: '#55cdfc' },
+      { text: 'k', color: '#f7a8b8' },
+      { text: 'y' },
+    ])
+  })
+
+  it('parses §x hex sequences and falls back to single codes when incomplete', () => {
+    const spans = parseMotd('§x§f§f§5§5§0§0Orange§r plain §x§1§2§3invalid')
+    assert.deepEqual(spans, [
+      { text: 'Orange', color: '#ff5500' },
+      { text: ' plain §x' },
+      { text: 'invalid', color: '#00aaaa' },
+    ])
+  })
+
+  it('parses components sent as a JSON string', () => {
+    const spans = parseMotd('{"text":"","extra":[{"text":"Hello","color":"yellow"}]}')
+    assert.deepEqual(spans, [{ text: 'Hello', color: '#ffff55' }])
+  })
+
+  it('returns a styled tree', () => {
+    const root = parseMotdTree({ text: 'A', color: 'red', extra: [{ text: '§lB', underlined: true }] })
+    const [node] = root.children
+    assert.equal(node.text, 'A')
+    assert.equal(node.color, '#ff5555')
+    const [child] = node.children
+    assert.equal(child.underlined, true)
+    assert.deepEqual(child.children.map(({ text, bold }) => ({ text, bold })), [{ text: 'B', bold: true }])
+  })
+
+  it('stops expanding self-referencing translations', () => {
+    let component: unknown = { text: 'x' }
+    for (let i = 0; i < 30; i++) {
+      component = { translate: '%1$s%1$s%1$s%1$s', with: [component] }
+    }
+    const start = Date.now()
+    const text = toPlainText(parseMotd(component))
+    assert.ok(Date.now() - start < 1000)
+    assert.ok(text.length > 0 && text.length <= 16384)
+  })
+})
@@ -0,0 +1,29 @@
+import { HTTP } from 'koishi'
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PanelTarget } from '../src/panel'
+import { createPterodactylPanel } from '../src/pterodactyl'
+
+// 只记录请求地址，不发出真实请求
+function createRecorder() {
+  const urls: string[] = []
+  const http = {
+    get: async (url: string) => (urls.push(url), { data: [] }),
+    post: async (url: string) => (urls.push(url), {}),
+  } as unknown as HTTP
+  return { http, urls }
+}
+
+describe('pterodactyl', () => {
+  it('encodes instance and backup ids in request paths', async () => {
+    const { http, urls } = createRecorder()
+    const panel = createPterodactylPanel(http, { name: 'test', url: 'https://panel.example.com/api/client/' })
+    const target: PanelTarget = { instanceId: '../../application/users?', apiKey: 'key' }
+    await panel.backups!.list(target)
+    await panel.backups!.restore(target, '../x')
+    assert.deepEqual(urls, [
+      'https://panel.example.com/api/client/servers/..%2F..%2Fapplication%2Fusers%3F/backups',
+      'https://panel.example.com/api/client/servers/..%2F..%2Fapplication%2Fusers%3F/backups/..%2Fx/restore',
+    ])
+  })
+})
@@ -0,0 +1,100 @@
+import { createSocket, Socket } from 'dgram'
+import { AddressInfo } from 'net'
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { getQueryServerStatus, parseFullStatResponse } from '../src/query'
+
+const CHALLENGE = 9513307
+
+function createFullStat(sessionId: number, values: Record<string, string>, players: string[]) {
+  const header = Buffer.alloc(5)
+  header.writeUInt8(0x00, 0)
+  header.writeInt32BE(sessionId, 1)
+  return Buffer.concat([
+    header,
+    Buffer.from('splitnum\0\x80\0', 'latin1'),
+    ...Object.entries(values).map(([key, value]) => Buffer.from(`${key}\0${value}\0`, 'utf8')),
+    Buffer.from([0]),
+    Buffer.from('\x01player_\0\0', 'latin1'),
+    ...players.map(name => Buffer.from(`${name}\0`, 'utf8')),
+    Buffer.from([0]),
+  ])
+}
+
+const VALUES = {
+  hostname: 'A Minecraft Server',
+  gametype: 'SMP',
+  game_id: 'MINECRAFT',
+  version: '1.20.4',
+  plugins: 'Paper on 1.20.4-R0.1-SNAPSHOT: LuckPerms 5.4.102; EssentialsX 2.20.1',
+  map: 'world',
+  numplayers: '2',
+  maxplayers: '20',
+  hostport: '25565',
+  hostip: '0.0.0.0',
+}
+
+describe('query', () => {
+  describe('parseFullStatResponse', () => {
+    it('parses key-values, plugins and the player list', () => {
+      const status = parseFullStatResponse(createFullStat(1, VALUES, ['Steve', 'Alex']))
+      assert.equal(status.description, 'A Minecraft Server')
+      assert.equal(status.version.name, '1.20.4')
+      assert.equal(status.software, 'Paper on 1.20.4-R0.1-SNAPSHOT')
+      assert.deepEqual(status.plugins, ['LuckPerms 5.4.102', 'EssentialsX 2.20.1'])
+      assert.equal(status.map, 'world')
+      assert.deepEqual(status.players, { online: 2, max: 20, list: ['Steve', 'Alex'] })
+      assert.equal(status.hostPort, 25565)
+    })
+
+    it('treats a plugins value without a colon as the server software', () => {
+      const status = parseFullStatResponse(createFullStat(1, { ...VALUES, plugins: 'CraftBukkit' }, []))
+      assert.equal(status.software, 'CraftBukkit')
+      assert.deepEqual(status.plugins, [])
+    })
+  })
+
+  describe('getQueryServerStatus', () => {
+    let responder: Socket
+    let silent: Socket
+
+    before(async () => {
+      responder = createSocket('udp4')
+      responder.on('message', (message, remote) => {
+        const type = message.readUInt8(2)
+        const sessionId = message.readInt32BE(3)
+        const header = Buffer.alloc(5)
+        header.writeInt32BE(sessionId, 1)
+        if (type === 0x09) {
+          header.writeUInt8(0x09, 0)
+          responder.send(Buffer.concat([header, Buffer.from(`${CHALLENGE}\0`)]), remote.port, remote.address)
+        } else if (type === 0x00 && message.readInt32BE(7) === CHALLENGE) {
+          // 其他会话的响应应当被忽略
+          responder.send(createFullStat(sessionId ^ 1, VALUES, []), remote.port, remote.address)
+          responder.send(createFullStat(sessionId, VALUES, ['Steve', 'Alex']), remote.port, remote.address)
+        }
+      })
+      silent = createSocket('udp4')
+      await Promise.all([responder, silent].map(socket => {
+        return new Promise<void>(resolve => socket.bind(0, '127.0.0.1', resolve))
+      }))
+    })
+
+    after(() => {
+      responder.close()
+      silent.close()
+    })
+
+    it('performs the handshake and the full stat request', async () => {
+      const { port } = responder.address() as AddressInfo
+      const status = await getQueryServerStatus('127.0.0.1', port, { timeout: 2000 })
+      assert.deepEqual(status.players.list, ['Steve', 'Alex'])
+      assert.equal(status.software, 'Paper on 1.20.4-R0.1-SNAPSHOT')
+    })
+
+    it('times out when query is disabled', async () => {
+      const { port } = silent.address() as AddressInfo
+      await assert.rejects(getQueryServerStatus('127.0.0.1', port, { timeout: 200 }), /Query 响应超时/)
+    })
+  })
+})